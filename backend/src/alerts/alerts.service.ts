@@ -0,0 +1,95 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import { EnvironmentVariables } from '../config/env.validation';
+
+const WEBHOOK_TIMEOUT_MS = 5000;
+// Alerts kept per source for the status endpoints
+const MAX_RECENT_ALERTS = 20;
+
+export interface Alert {
+  // Service that raised the alert, e.g. watchdog
+  source: string;
+  type: string;
+  severity: 'critical' | 'warning' | 'info';
+  coin: string | null;
+  message: string;
+  details: Record<string, unknown>;
+  at: string;
+}
+
+/**
+ * Delivers alerts to the sinks listed in ALERT_SINKS: the application log
+ * and an HTTP webhook. Delivery failures are logged, never thrown. The
+ * last alerts of every source are kept for its status endpoint.
+ */
+@Injectable()
+export class AlertsService {
+  private readonly logger = new Logger(AlertsService.name);
+  private readonly sinks: Set<string>;
+  private readonly webhookUrl: string | undefined;
+  private readonly recent = new Map<string, Alert[]>();
+
+  constructor(
+    private readonly configService: ConfigService<EnvironmentVariables, true>,
+  ) {
+    this.sinks = new Set(
+      this.configService.get('ALERT_SINKS', { infer: true }).split(','),
+    );
+    this.webhookUrl = this.configService.get('ALERT_WEBHOOK_URL', {
+      infer: true,
+    });
+    if (this.sinks.has('webhook') && !this.webhookUrl) {
+      this.logger.warn('ALERT_WEBHOOK_URL not set, webhook sink disabled');
+      this.sinks.delete('webhook');
+    }
+  }
+
+  /**
+   * Last alerts sent by a source, newest first
+   */
+  getRecentAlerts(source: string): Alert[] {
+    return this.recent.get(source) ?? [];
+  }
+
+  /**
+   * Send the alert unless one of the same type and coin is in active, the
+   * alerts still standing from the source's previous check. Returns the
+   * alert that stands now.
+   */
+  async sendOnce(alert: Alert, active: Alert[]): Promise<Alert> {
+    const standing = active.find(
+      ({ type, coin }) => type === alert.type && coin === alert.coin,
+    );
+    if (standing) return standing;
+
+    await this.send(alert);
+    return alert;
+  }
+
+  async send(alert: Alert) {
+    const recent = this.recent.get(alert.source) ?? [];
+    recent.unshift(alert);
+    recent.length = Math.min(recent.length, MAX_RECENT_ALERTS);
+    this.recent.set(alert.source, recent);
+
+    if (this.sinks.has('log')) {
+      const line = `[${alert.source}] ${alert.message}`;
+      if (alert.severity === 'critical') this.logger.error(line);
+      else if (alert.severity === 'warning') this.logger.warn(line);
+      else this.logger.log(line);
+    }
+
+    if (this.sinks.has('webhook')) {
+      try {
+        await axios.post(this.webhookUrl, alert, {
+          timeout: WEBHOOK_TIMEOUT_MS,
+        });
+      } catch (error) {
+        this.logger.warn(
+          `Could not deliver ${alert.type} alert to webhook: ${error.message}`,
+        );
+      }
+    }
+  }
+}
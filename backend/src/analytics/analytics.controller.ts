@@ -0,0 +1,18 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { AnalyticsService } from './analytics.service';
+import { AnalyticsQuery, VolumeQuery } from './dto/analytics.dto';
+
+@Controller('api/prediction')
+export class AnalyticsController {
+  constructor(private readonly analyticsService: AnalyticsService) {}
+
+  @Get('analytics/volume')
+  getVolume(@Query() query: VolumeQuery) {
+    return this.analyticsService.getVolume(query);
+  }
+
+  @Get('analytics/rounds')
+  getRoundStats(@Query() query: AnalyticsQuery) {
+    return this.analyticsService.getRoundStats(query);
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { IndexerModule } from '../indexer/indexer.module';
+import { AnalyticsController } from './analytics.controller';
+import { AnalyticsService } from './analytics.service';
+
+@Module({
+  imports: [IndexerModule],
+  controllers: [AnalyticsController],
+  providers: [AnalyticsService],
+})
+export class AnalyticsModule {}
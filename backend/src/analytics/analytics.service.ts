@@ -0,0 +1,222 @@
+import { Injectable } from '@nestjs/common';
+import { ethers } from 'ethers';
+import { parseCoin } from '../blockchain/coins';
+import { COINS, RoundStatus } from '../blockchain/contract.constants';
+import {
+  getPayoutMultipliers,
+  getPoolImbalance,
+  RoundOutcome,
+} from '../blockchain/round-math';
+import { InvalidParameterError } from '../common/errors/prediction.errors';
+import { IndexerStore } from '../indexer/indexer.store';
+import { IndexedRound } from '../indexer/indexer.types';
+import { AnalyticsQuery, VolumeQuery } from './dto/analytics.dto';
+
+const INTERVALS = {
+  hour: { seconds: 60 * 60, defaultBuckets: 48 },
+  day: { seconds: 24 * 60 * 60, defaultBuckets: 30 },
+};
+
+const MAX_BUCKETS = 1000;
+
+// Upper bounds of the multiplier histogram bins, the last bin is open-ended
+const MULTIPLIER_BINS = [1.25, 1.5, 2, 3, 5];
+
+interface VolumeBucket {
+  volume: bigint;
+  bets: number;
+  bettors: Set<string>;
+}
+
+/**
+ * Aggregates over the rounds and bets stored by the indexer, for tuning
+ * round duration and fees
+ */
+@Injectable()
+export class AnalyticsService {
+  constructor(private readonly store: IndexerStore) {}
+
+  /**
+   * Bet volume per coin in hourly or daily buckets (UTC), by the block
+   * timestamp the bets were placed at. Empty buckets are included.
+   */
+  getVolume(query: VolumeQuery) {
+    const { seconds, defaultBuckets } = INTERVALS[query.interval];
+    const to = query.to ?? Math.floor(Date.now() / 1000);
+    const from = query.from ?? to - seconds * (defaultBuckets - 1);
+    if (from > to) {
+      throw new InvalidParameterError('Invalid time range', [
+        'from must not be after to',
+      ]);
+    }
+
+    const firstBucket = Math.floor(from / seconds) * seconds;
+    const bucketCount = Math.floor((to - firstBucket) / seconds) + 1;
+    if (bucketCount > MAX_BUCKETS) {
+      throw new InvalidParameterError('Invalid time range', [
+        `range must span at most ${MAX_BUCKETS} buckets of one ${query.interval}`,
+      ]);
+    }
+
+    return {
+      interval: query.interval,
+      from: firstBucket,
+      to,
+      coins: this.getCoins(query.coin).map((coin) => {
+        const buckets: VolumeBucket[] = Array.from(
+          { length: bucketCount },
+          () => ({ volume: 0n, bets: 0, bettors: new Set<string>() }),
+        );
+
+        for (const { bet } of this.store.getBets({ coin, from, to })) {
+          const bucket =
+            buckets[Math.floor((bet.placedAt - firstBucket) / seconds)];
+          bucket.volume += BigInt(bet.amount);
+          bucket.bets++;
+          bucket.bettors.add(bet.user);
+        }
+
+        const total = buckets.reduce((sum, { volume }) => sum + volume, 0n);
+        return {
+          coin: COINS[coin],
+          totalVolume: ethers.formatEther(total),
+          buckets: buckets.map((bucket, i) => ({
+            timestamp: firstBucket + i * seconds,
+            volume: ethers.formatEther(bucket.volume),
+            bets: bucket.bets,
+            bettors: bucket.bettors.size,
+          })),
+        };
+      }),
+    };
+  }
+
+  /**
+   * Outcome ratio, winning-side multipliers, pool imbalance and unique
+   * bettors over closed rounds, selected by startTimestamp. Multipliers
+   * follow getPayoutMultipliers: total pool / winner pool after the fee.
+   */
+  getRoundStats(query: AnalyticsQuery) {
+    return {
+      from: query.from ?? null,
+      to: query.to ?? null,
+      coins: this.getCoins(query.coin).map((coin) =>
+        this.getCoinRoundStats(coin, query.from, query.to),
+      ),
+    };
+  }
+
+  private getCoinRoundStats(coin: number, from?: number, to?: number) {
+    const rounds = [
+      ...this.store.iterateRounds(coin, {
+        status: RoundStatus.Closed,
+        from,
+        to,
+      }),
+    ].filter((round) => round.outcome !== null);
+
+    const outcomes: Record<RoundOutcome, number> = { Bull: 0, Bear: 0, Tie: 0 };
+    const multipliers: number[] = [];
+    const imbalances: number[] = [];
+    let noWinnerRounds = 0;
+    let volume = 0n;
+
+    for (const round of rounds) {
+      const totalBullAmount = BigInt(round.totalBullAmount);
+      const totalBearAmount = BigInt(round.totalBearAmount);
+      outcomes[round.outcome]++;
+      volume += totalBullAmount + totalBearAmount;
+
+      const imbalance = getPoolImbalance(totalBullAmount, totalBearAmount);
+      if (imbalance !== null) imbalances.push(imbalance);
+
+      if (round.outcome === 'Tie') continue;
+      const { bull, bear } = getPayoutMultipliers(
+        totalBullAmount,
+        totalBearAmount,
+      );
+      const multiplier = round.outcome === 'Bull' ? bull : bear;
+      if (multiplier === null) {
+        // Only counts rounds that had bets on the losing side
+        if (totalBullAmount + totalBearAmount > 0n) noWinnerRounds++;
+        continue;
+      }
+      multipliers.push(multiplier);
+    }
+
+    const ratio = (count: number) =>
+      rounds.length > 0 ? count / rounds.length : null;
+
+    return {
+      coin: COINS[coin],
+      rounds: rounds.length,
+      volume: ethers.formatEther(volume),
+      outcomes: {
+        bull: { rounds: outcomes.Bull, ratio: ratio(outcomes.Bull) },
+        bear: { rounds: outcomes.Bear, ratio: ratio(outcomes.Bear) },
+        tie: { rounds: outcomes.Tie, ratio: ratio(outcomes.Tie) },
+      },
+      winningMultipliers: {
+        ...this.summarize(multipliers),
+        noWinnerRounds,
+        histogram: this.histogram(multipliers),
+      },
+      averageImbalance: this.summarize(imbalances).mean,
+      uniqueBettors: this.countBettors(coin, rounds),
+    };
+  }
+
+  // Bets can only be placed after a round starts, so every bet of the
+  // selected rounds was placed at or after the first startTimestamp
+  private countBettors(coin: number, rounds: IndexedRound[]): number {
+    if (rounds.length === 0) return 0;
+
+    const roundIds = new Set(rounds.map((round) => round.roundId));
+    const from = rounds.reduce(
+      (min, round) => Math.min(min, round.startTimestamp),
+      Infinity,
+    );
+    const bettors = new Set<string>();
+    for (const { bet } of this.store.getBets({ coin, from })) {
+      if (roundIds.has(bet.roundId)) bettors.add(bet.user);
+    }
+    return bettors.size;
+  }
+
+  private summarize(values: number[]) {
+    if (values.length === 0) {
+      return { rounds: 0, min: null, max: null, mean: null, median: null };
+    }
+
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return {
+      rounds: sorted.length,
+      min: sorted[0],
+      max: sorted[sorted.length - 1],
+      mean: sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+      median:
+        sorted.length % 2 === 1
+          ? sorted[middle]
+          : (sorted[middle - 1] + sorted[middle]) / 2,
+    };
+  }
+
+  private histogram(multipliers: number[]) {
+    const bins = [...MULTIPLIER_BINS, null].map((max, i) => ({
+      min: i === 0 ? null : MULTIPLIER_BINS[i - 1],
+      max,
+      rounds: 0,
+    }));
+
+    for (const multiplier of multipliers) {
+      const bin = bins.find(({ max }) => max === null || multiplier < max);
+      bin.rounds++;
+    }
+    return bins;
+  }
+
+  private getCoins(coin?: string): number[] {
+    return coin === undefined ? COINS.map((_, i) => i) : [parseCoin(coin)];
+  }
+}
@@ -0,0 +1,23 @@
+import { IsIn, IsOptional } from 'class-validator';
+import { IsCoin, IsTimestamp } from '../../prediction/dto/prediction.dto';
+
+export class AnalyticsQuery {
+  // All coins when omitted
+  @IsOptional()
+  @IsCoin()
+  coin?: string;
+
+  @IsOptional()
+  @IsTimestamp('from')
+  from?: number;
+
+  @IsOptional()
+  @IsTimestamp('to')
+  to?: number;
+}
+
+export class VolumeQuery extends AnalyticsQuery {
+  @IsOptional()
+  @IsIn(['hour', 'day'], { message: 'interval must be hour or day' })
+  interval: 'hour' | 'day' = 'hour';
+}
@@ -1,18 +1,61 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { AppController } from './app.controller';
+import { AnalyticsModule } from './analytics/analytics.module';
 import { AppService } from './app.service';
+import { BlockchainModule } from './blockchain/blockchain.module';
+import { ClaimsModule } from './claims/claims.module';
+import { CoinsModule } from './coins/coins.module';
+import { DashboardModule } from './dashboard/dashboard.module';
+import { validate } from './config/env.validation';
+import { ExportsModule } from './exports/exports.module';
+import { HealthModule } from './health/health.module';
+import { HistoryModule } from './history/history.module';
+import { IndexerModule } from './indexer/indexer.module';
+import { KeeperModule } from './keeper/keeper.module';
+import { LeaderboardModule } from './leaderboard/leaderboard.module';
+import { MetricsModule } from './metrics/metrics.module';
+import { OraclesModule } from './oracles/oracles.module';
+import { RealtimeModule } from './realtime/realtime.module';
+import { SimulatorModule } from './simulator/simulator.module';
+import { SolvencyModule } from './solvency/solvency.module';
+import { TransactionsModule } from './transactions/transactions.module';
+import { TreasuryModule } from './treasury/treasury.module';
+import { WatchdogModule } from './watchdog/watchdog.module';
+import { WebhooksModule } from './webhooks/webhooks.module';
 import { PredictionController } from './prediction/prediction.controller';
+import { PredictionCache } from './prediction/prediction.cache';
 import { PredictionService } from './prediction/prediction.service';
 
 @Module({
   imports: [
     ConfigModule.forRoot({
       isGlobal: true,
+      validate,
     }),
+    BlockchainModule,
+    CoinsModule,
+    IndexerModule,
+    HistoryModule,
+    LeaderboardModule,
+    RealtimeModule,
+    KeeperModule,
+    SimulatorModule,
+    DashboardModule,
+    ClaimsModule,
+    TransactionsModule,
+    AnalyticsModule,
+    ExportsModule,
+    TreasuryModule,
+    SolvencyModule,
+    OraclesModule,
+    WatchdogModule,
+    HealthModule,
+    MetricsModule,
+    WebhooksModule,
   ],
   controllers: [AppController, PredictionController],
-  providers: [AppService, PredictionService],
+  providers: [AppService, PredictionService, PredictionCache],
 })
 export class AppModule {}
 
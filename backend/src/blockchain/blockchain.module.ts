@@ -0,0 +1,10 @@
+import { Global, Module } from '@nestjs/common';
+import { BlockchainService } from './blockchain.service';
+import { MulticallService } from './multicall.service';
+
+@Global()
+@Module({
+  providers: [BlockchainService, MulticallService],
+  exports: [BlockchainService, MulticallService],
+})
+export class BlockchainModule {}
@@ -0,0 +1,140 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as path from 'path';
+import { EnvironmentVariables } from '../config/env.validation';
+
+// Contract members the backend relies on; boot fails if the ABI lacks any
+const REQUIRED_FUNCTIONS = [
+  'currentRound',
+  'getCurrentRound',
+  'getRound',
+  'getUserBet',
+  'getCurrentPrice',
+  'calculatePayout',
+  'priceOracles',
+  'treasury',
+  'lockRound',
+  'closeRound',
+  'createNextRound',
+];
+
+// ethers retries an unreachable RPC forever, so boot gives up after this
+const RPC_CONNECT_TIMEOUT_MS = 10000;
+
+const REQUIRED_EVENTS = [
+  'RoundCreated',
+  'BetPlaced',
+  'RoundLocked',
+  'RoundClosed',
+  'BetClaimed',
+];
+
+@Injectable()
+export class BlockchainService implements OnModuleInit {
+  private readonly logger = new Logger(BlockchainService.name);
+  readonly provider: ethers.JsonRpcProvider;
+  readonly contract: ethers.Contract;
+  readonly contractAddress: string;
+  readonly abiPath: string;
+
+  constructor(
+    private readonly configService: ConfigService<EnvironmentVariables, true>,
+  ) {
+    const rpcUrl = this.configService.get('RPC_URL', { infer: true });
+    this.provider = new ethers.JsonRpcProvider(rpcUrl);
+    this.contractAddress = ethers.getAddress(
+      this.configService.get('CONTRACT_ADDRESS', { infer: true }),
+    );
+    this.abiPath = path.resolve(
+      this.configService.get('CONTRACT_ABI_PATH', { infer: true }),
+    );
+
+    let abi: ethers.InterfaceAbi;
+    try {
+      const artifact = JSON.parse(fs.readFileSync(this.abiPath, 'utf8'));
+      abi = artifact.abi;
+    } catch (error) {
+      throw new Error(
+        `Could not load contract ABI from ${this.abiPath}: ${error.message}`,
+      );
+    }
+
+    this.contract = new ethers.Contract(
+      this.contractAddress,
+      abi,
+      this.provider,
+    );
+  }
+
+  /**
+   * Fail fast when the ABI, the chain or the deployed contract don't match
+   * the configuration
+   */
+  async onModuleInit() {
+    const missing = this.getMissingAbiMembers();
+    if (missing.length > 0) {
+      throw new Error(
+        `Contract ABI at ${this.abiPath} is missing: ${missing.join(', ')}`,
+      );
+    }
+
+    const rpcUrl = this.configService.get('RPC_URL', { infer: true });
+    let network: ethers.Network;
+    let code: string;
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Timed out after ${RPC_CONNECT_TIMEOUT_MS}ms`)),
+        RPC_CONNECT_TIMEOUT_MS,
+      );
+    });
+    try {
+      [network, code] = await Promise.race([
+        Promise.all([
+          this.provider.getNetwork(),
+          this.provider.getCode(this.contractAddress),
+        ]),
+        timeout,
+      ]);
+    } catch (error) {
+      // Stops the provider's own retries so the process can exit
+      this.provider.destroy();
+      throw new Error(`Could not reach RPC at ${rpcUrl}: ${error.message}`);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const chainId = this.configService.get('CHAIN_ID', { infer: true });
+    if (chainId !== undefined && network.chainId !== BigInt(chainId)) {
+      throw new Error(
+        `RPC at ${rpcUrl} is on chain ${network.chainId}, expected CHAIN_ID ${chainId}`,
+      );
+    }
+
+    if (code === '0x') {
+      throw new Error(
+        `No contract deployed at CONTRACT_ADDRESS ${this.contractAddress} on chain ${network.chainId}`,
+      );
+    }
+
+    this.logger.log(
+      `Using contract ${this.contractAddress} on chain ${network.chainId}`,
+    );
+  }
+
+  /**
+   * Functions and events the backend relies on that the loaded ABI lacks
+   */
+  getMissingAbiMembers(): string[] {
+    return [
+      ...REQUIRED_FUNCTIONS.filter(
+        (name) => !this.contract.interface.getFunction(name),
+      ),
+      ...REQUIRED_EVENTS.filter(
+        (name) => !this.contract.interface.getEvent(name),
+      ),
+    ];
+  }
+}
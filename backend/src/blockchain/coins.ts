@@ -0,0 +1,17 @@
+import { InvalidParameterError } from '../common/errors/prediction.errors';
+import { COINS } from './contract.constants';
+
+/**
+ * Coin enum index for a symbol such as "btc", rejecting unknown coins
+ */
+export function parseCoin(coin: string): number {
+  const coinEnum = (COINS as readonly string[]).indexOf(
+    String(coin).toUpperCase(),
+  );
+  if (coinEnum === -1) {
+    throw new InvalidParameterError(`Unknown coin: ${coin}`, [
+      `coin must be one of ${COINS.join(', ')}`,
+    ]);
+  }
+  return coinEnum;
+}
@@ -0,0 +1,31 @@
+// Mirrors the enums and constants declared in MultiCoinPredictionMarket.sol
+
+export const COINS = ['BTC', 'ETH', 'BNB'] as const;
+
+export type CoinSymbol = (typeof COINS)[number];
+
+export enum Position {
+  Bull = 0,
+  Bear = 1,
+}
+
+export enum RoundStatus {
+  Open = 0,
+  Locked = 1,
+  Closed = 2,
+}
+
+// Round duration: 5 minutes betting period, then 60 seconds until close
+export const ROUND_DURATION = 300;
+export const CLOSE_DELAY = 60;
+
+// Treasury fee: 3% (30 basis points out of 1000)
+export const TREASURY_FEE = 30n;
+export const BASIS_POINTS = 1000n;
+
+// Display names, by coin enum index
+export const COIN_NAMES: Record<CoinSymbol, string> = {
+  BTC: 'Bitcoin',
+  ETH: 'Ethereum',
+  BNB: 'BNB',
+};
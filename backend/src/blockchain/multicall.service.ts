@@ -0,0 +1,101 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ethers } from 'ethers';
+import { ChainUnavailableError } from '../common/errors/prediction.errors';
+import { EnvironmentVariables } from '../config/env.validation';
+import { BlockchainService } from './blockchain.service';
+
+const MULTICALL3_ABI = [
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+  'function getBlockNumber() view returns (uint256)',
+  'function getCurrentBlockTimestamp() view returns (uint256)',
+];
+
+export interface MulticallRequest {
+  contract: ethers.Contract;
+  method: string;
+  args?: unknown[];
+}
+
+export interface MulticallResult {
+  success: boolean;
+  // Decoded return values, or null when the call reverted
+  result: ethers.Result | null;
+}
+
+/**
+ * Batches contract reads into one Multicall3 aggregate3 eth_call, so every
+ * value comes from the same block
+ */
+@Injectable()
+export class MulticallService implements OnModuleInit {
+  private readonly logger = new Logger(MulticallService.name);
+  readonly multicall: ethers.Contract;
+  private available = false;
+
+  constructor(
+    private readonly blockchainService: BlockchainService,
+    private readonly configService: ConfigService<EnvironmentVariables, true>,
+  ) {
+    this.multicall = new ethers.Contract(
+      ethers.getAddress(
+        this.configService.get('MULTICALL_ADDRESS', { infer: true }),
+      ),
+      MULTICALL3_ABI,
+      this.blockchainService.provider,
+    );
+  }
+
+  // Batched endpoints are unavailable without Multicall3, the rest still work
+  async onModuleInit() {
+    const address = this.multicall.target as string;
+    try {
+      this.available =
+        (await this.blockchainService.provider.getCode(address)) !== '0x';
+    } catch (error) {
+      this.logger.warn(`Could not check Multicall3: ${error.message}`);
+      return;
+    }
+
+    if (!this.available) {
+      this.logger.warn(
+        `No Multicall3 at MULTICALL_ADDRESS ${address}, batched reads disabled`,
+      );
+    }
+  }
+
+  /**
+   * Run the calls at blockTag. Calls that revert return success false
+   * instead of failing the batch.
+   */
+  async aggregate(
+    calls: MulticallRequest[],
+    blockTag: ethers.BlockTag = 'latest',
+  ): Promise<MulticallResult[]> {
+    if (!this.available) {
+      throw new ChainUnavailableError(
+        `Multicall3 is not deployed at ${this.multicall.target}`,
+      );
+    }
+
+    const results: { success: boolean; returnData: string }[] =
+      await this.multicall.aggregate3.staticCall(
+        calls.map(({ contract, method, args = [] }) => ({
+          target: contract.target,
+          allowFailure: true,
+          callData: contract.interface.encodeFunctionData(method, args),
+        })),
+        { blockTag },
+      );
+
+    return results.map(({ success, returnData }, i) => ({
+      success,
+      result: success
+        ? calls[i].contract.interface.decodeFunctionResult(
+            calls[i].method,
+            returnData,
+          )
+        : null,
+    }));
+  }
+}
@@ -0,0 +1,7 @@
+// Chainlink AggregatorV3Interface plus the setter exposed by MockPriceOracle
+export const ORACLE_ABI = [
+  'function decimals() view returns (uint8)',
+  'function description() view returns (string)',
+  'function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)',
+  'function setPrice(int256 _price)',
+];
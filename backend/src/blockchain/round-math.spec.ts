@@ -0,0 +1,173 @@
+import { ethers } from 'ethers';
+import { BetRecord } from '../indexer/indexer.types';
+import { Position, RoundStatus } from './contract.constants';
+import {
+  calculateClaim,
+  getBetResult,
+  getPayoutMultipliers,
+  getPoolImbalance,
+  getPriceChangePercent,
+  getRoundOutcome,
+  settleBet,
+} from './round-math';
+
+const ether = (amount: string) => ethers.parseEther(amount);
+
+describe('getRoundOutcome', () => {
+  it('compares closePrice to lockPrice', () => {
+    expect(getRoundOutcome(100n, 101n)).toBe('Bull');
+    expect(getRoundOutcome(100n, 99n)).toBe('Bear');
+  });
+
+  it('reports equal prices as a tie', () => {
+    expect(getRoundOutcome(100n, 100n)).toBe('Tie');
+  });
+});
+
+describe('getPayoutMultipliers', () => {
+  it('pays the whole pool less the treasury fee to each side', () => {
+    expect(getPayoutMultipliers(ether('3'), ether('1'))).toEqual({
+      bull: 1.293333,
+      bear: 3.88,
+    });
+  });
+
+  it('is null for a side nobody bet on', () => {
+    expect(getPayoutMultipliers(ether('1'), 0n)).toEqual({
+      bull: 0.97,
+      bear: null,
+    });
+    expect(getPayoutMultipliers(0n, 0n)).toEqual({ bull: null, bear: null });
+  });
+});
+
+describe('getPriceChangePercent', () => {
+  it('is signed relative to lockPrice', () => {
+    expect(getPriceChangePercent(200n, 201n)).toBe(0.5);
+    expect(getPriceChangePercent(200n, 150n)).toBe(-25);
+    expect(getPriceChangePercent(200n, 200n)).toBe(0);
+  });
+
+  it('is null without a lock price', () => {
+    expect(getPriceChangePercent(0n, 100n)).toBeNull();
+  });
+});
+
+describe('getBetResult', () => {
+  it('is pending until the round is settled', () => {
+    expect(getBetResult(null, Position.Bull)).toBe('pending');
+  });
+
+  it('matches the position against the outcome', () => {
+    expect(getBetResult('Bull', Position.Bull)).toBe('won');
+    expect(getBetResult('Bull', Position.Bear)).toBe('lost');
+    expect(getBetResult('Bear', Position.Bear)).toBe('won');
+    expect(getBetResult('Bear', Position.Bull)).toBe('lost');
+  });
+
+  it('reports a tie for either position', () => {
+    expect(getBetResult('Tie', Position.Bull)).toBe('tie');
+    expect(getBetResult('Tie', Position.Bear)).toBe('tie');
+  });
+});
+
+describe('calculateClaim', () => {
+  it('splits the pool pro rata and takes the fee from the payout', () => {
+    // 1 of the 2 ether on Bull wins a share of the 5 ether pool
+    expect(
+      calculateClaim(ether('2'), ether('3'), Position.Bull, ether('1')),
+    ).toEqual({
+      payout: ether('2.5'),
+      fee: ether('0.075'),
+      userPayout: ether('2.425'),
+    });
+  });
+
+  it('rounds down like the contract', () => {
+    const { payout, fee, userPayout } = calculateClaim(
+      3n,
+      1n,
+      Position.Bull,
+      1n,
+    );
+    expect(payout).toBe(1n);
+    expect(fee).toBe(0n);
+    expect(userPayout).toBe(1n);
+  });
+
+  it('pays nothing when the winning side has no pool', () => {
+    expect(calculateClaim(0n, ether('1'), Position.Bull, ether('1'))).toEqual(
+      { payout: 0n, fee: 0n, userPayout: 0n },
+    );
+  });
+});
+
+function betRecord(
+  outcome: 'Bull' | 'Bear' | null,
+  claimedAmount: string | null = null,
+): BetRecord {
+  return {
+    bet: {
+      coin: 0,
+      roundId: 1,
+      user: ethers.ZeroAddress,
+      position: Position.Bull,
+      amount: ether('1').toString(),
+      placedAt: 0,
+      transactionHash: ethers.ZeroHash,
+      claimed: claimedAmount !== null,
+      claimedAmount,
+      claimedAt: null,
+      claimTransactionHash: null,
+    },
+    round: {
+      totalBullAmount: ether('2').toString(),
+      totalBearAmount: ether('3').toString(),
+      status: outcome === null ? RoundStatus.Locked : RoundStatus.Closed,
+      outcome,
+    } as BetRecord['round'],
+  };
+}
+
+describe('settleBet', () => {
+  it('works out the claim of a winning bet', () => {
+    expect(settleBet(betRecord('Bull'))).toEqual({
+      result: 'won',
+      payout: ether('2.5'),
+      fee: ether('0.075'),
+      userPayout: ether('2.425'),
+    });
+  });
+
+  it('pays nothing for a lost or pending bet', () => {
+    for (const outcome of ['Bear', null] as const) {
+      expect(settleBet(betRecord(outcome))).toMatchObject({
+        payout: 0n,
+        fee: 0n,
+        userPayout: 0n,
+      });
+    }
+  });
+
+  it('reports the amount BetClaimed emitted once claimed', () => {
+    expect(
+      settleBet(betRecord('Bull', ether('2.4').toString())).userPayout,
+    ).toBe(ether('2.4'));
+  });
+});
+
+describe('getPoolImbalance', () => {
+  it('is 0 for a balanced pool and 1 for a one-sided one', () => {
+    expect(getPoolImbalance(ether('1'), ether('1'))).toBe(0);
+    expect(getPoolImbalance(ether('1'), 0n)).toBe(1);
+    expect(getPoolImbalance(0n, ether('1'))).toBe(1);
+  });
+
+  it('is the lead of one side as a share of the pool', () => {
+    expect(getPoolImbalance(ether('3'), ether('1'))).toBe(0.5);
+  });
+
+  it('is null for an empty pool', () => {
+    expect(getPoolImbalance(0n, 0n)).toBeNull();
+  });
+});
@@ -0,0 +1,145 @@
+// Off-chain replicas of the settlement rules in MultiCoinPredictionMarket.sol
+
+import { BetRecord } from '../indexer/indexer.types';
+import { BASIS_POINTS, Position, TREASURY_FEE } from './contract.constants';
+
+// Fixed-point precision used before converting ratios to numbers
+const RATIO_SCALE = 10n ** 6n;
+
+export type RoundOutcome = 'Bull' | 'Bear' | 'Tie';
+
+/**
+ * Winner of a closed round, with ties made explicit (the RoundClosed event
+ * reports Bull as a placeholder when lockPrice == closePrice)
+ */
+export function getRoundOutcome(
+  lockPrice: bigint,
+  closePrice: bigint,
+): RoundOutcome {
+  if (closePrice > lockPrice) return 'Bull';
+  if (closePrice < lockPrice) return 'Bear';
+  return 'Tie';
+}
+
+/**
+ * Payout per unit staked on each side (stake included), after the treasury fee.
+ * Null when nobody has bet on that side yet.
+ */
+export function getPayoutMultipliers(
+  totalBullAmount: bigint,
+  totalBearAmount: bigint,
+): { bull: number | null; bear: number | null } {
+  const totalAmount = totalBullAmount + totalBearAmount;
+  const multiplier = (positionPool: bigint) =>
+    positionPool === 0n
+      ? null
+      : Number(
+          (totalAmount * (BASIS_POINTS - TREASURY_FEE) * RATIO_SCALE) /
+            (positionPool * BASIS_POINTS),
+        ) / Number(RATIO_SCALE);
+
+  return {
+    bull: multiplier(totalBullAmount),
+    bear: multiplier(totalBearAmount),
+  };
+}
+
+/**
+ * Percentage move from lockPrice to closePrice
+ */
+export function getPriceChangePercent(
+  lockPrice: bigint,
+  closePrice: bigint,
+): number | null {
+  if (lockPrice === 0n) return null;
+  return (
+    Number(((closePrice - lockPrice) * RATIO_SCALE * 100n) / lockPrice) /
+    Number(RATIO_SCALE)
+  );
+}
+
+export type BetResult = 'pending' | 'won' | 'lost' | 'tie';
+
+/**
+ * Result of a bet given the outcome of its round (null while unsettled)
+ */
+export function getBetResult(
+  outcome: RoundOutcome | null,
+  position: Position,
+): BetResult {
+  if (outcome === null) return 'pending';
+  if (outcome === 'Tie') return 'tie';
+  return (outcome === 'Bull') === (position === Position.Bull) ? 'won' : 'lost';
+}
+
+/**
+ * Amounts moved by claim() for a winning bet: the pro-rata share of the
+ * whole pool, the treasury fee taken from it and what the user receives
+ */
+export function calculateClaim(
+  totalBullAmount: bigint,
+  totalBearAmount: bigint,
+  position: Position,
+  amount: bigint,
+): { payout: bigint; fee: bigint; userPayout: bigint } {
+  const totalAmount = totalBullAmount + totalBearAmount;
+  const winnerPool =
+    position === Position.Bull ? totalBullAmount : totalBearAmount;
+
+  if (winnerPool === 0n) {
+    return { payout: 0n, fee: 0n, userPayout: 0n };
+  }
+
+  const payout = (totalAmount * amount) / winnerPool;
+  const fee = (payout * TREASURY_FEE) / BASIS_POINTS;
+
+  return { payout, fee, userPayout: payout - fee };
+}
+
+/**
+ * Result of an indexed bet and what claim() moves (or moved) for it. Once
+ * the bet is claimed, userPayout is the amount BetClaimed actually reported.
+ */
+export function settleBet({ bet, round }: BetRecord): {
+  result: BetResult;
+  payout: bigint;
+  fee: bigint;
+  userPayout: bigint;
+} {
+  const result = getBetResult(round?.outcome ?? null, bet.position);
+  const claim =
+    result === 'won'
+      ? calculateClaim(
+          BigInt(round.totalBullAmount),
+          BigInt(round.totalBearAmount),
+          bet.position,
+          BigInt(bet.amount),
+        )
+      : { payout: 0n, fee: 0n, userPayout: 0n };
+
+  return {
+    result,
+    ...claim,
+    userPayout:
+      bet.claimedAmount !== null ? BigInt(bet.claimedAmount) : claim.userPayout,
+  };
+}
+
+/**
+ * Share of the pool that one side is ahead by: 0 for a balanced round,
+ * 1 when everything sits on one side. Null for an empty pool.
+ */
+export function getPoolImbalance(
+  totalBullAmount: bigint,
+  totalBearAmount: bigint,
+): number | null {
+  const totalAmount = totalBullAmount + totalBearAmount;
+  if (totalAmount === 0n) return null;
+  const difference =
+    totalBullAmount > totalBearAmount
+      ? totalBullAmount - totalBearAmount
+      : totalBearAmount - totalBullAmount;
+  return (
+    Number((difference * RATIO_SCALE) / totalAmount) / Number(RATIO_SCALE)
+  );
+}
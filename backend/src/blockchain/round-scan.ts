@@ -0,0 +1,31 @@
+import { RoundStatus } from './contract.constants';
+
+export interface UnclosedRound {
+  roundId: bigint;
+  // Round struct as returned by getRound
+  round: any;
+}
+
+/**
+ * Locked rounds still waiting for closeRound, oldest first, scanning back
+ * from roundId to the last closed round. lockRound moves currentRound on
+ * whether or not earlier rounds were closed, so after keeper downtime
+ * there can be any number of them.
+ */
+export async function getUnclosedRounds(
+  roundId: bigint,
+  getRound: (roundId: bigint) => Promise<any>,
+): Promise<UnclosedRound[]> {
+  const unclosed: UnclosedRound[] = [];
+
+  for (let id = roundId; id >= 1n; id--) {
+    const round = await getRound(id);
+    const status = Number(round.status);
+    if (status === RoundStatus.Closed) break;
+    if (status === RoundStatus.Locked && !round.oracleCalled) {
+      unclosed.unshift({ roundId: id, round });
+    }
+  }
+
+  return unclosed;
+}
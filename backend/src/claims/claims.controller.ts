@@ -0,0 +1,13 @@
+import { Controller, Get, Param } from '@nestjs/common';
+import { AddressParams } from '../prediction/dto/prediction.dto';
+import { ClaimsService } from './claims.service';
+
+@Controller('api/prediction')
+export class ClaimsController {
+  constructor(private readonly claimsService: ClaimsService) {}
+
+  @Get('users/:address/unclaimed')
+  getUnclaimed(@Param() { address }: AddressParams) {
+    return this.claimsService.getUnclaimed(address);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { IndexerModule } from '../indexer/indexer.module';
+import { TransactionsModule } from '../transactions/transactions.module';
+import { ClaimsController } from './claims.controller';
+import { ClaimsService } from './claims.service';
+
+@Module({
+  imports: [IndexerModule, TransactionsModule],
+  controllers: [ClaimsController],
+  providers: [ClaimsService],
+})
+export class ClaimsModule {}
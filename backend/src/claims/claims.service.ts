@@ -0,0 +1,101 @@
+import { Injectable } from '@nestjs/common';
+import { ethers } from 'ethers';
+import { BlockchainService } from '../blockchain/blockchain.service';
+import { COINS, RoundStatus } from '../blockchain/contract.constants';
+import { calculateClaim, getBetResult } from '../blockchain/round-math';
+import {
+  isContractRevert,
+  toPredictionError,
+} from '../common/errors/contract-errors';
+import { IndexerStore } from '../indexer/indexer.store';
+import { BetRecord } from '../indexer/indexer.types';
+import { TransactionsService } from '../transactions/transactions.service';
+
+/**
+ * Finds the rounds in which an address can still call claim()
+ */
+@Injectable()
+export class ClaimsService {
+  constructor(
+    private readonly blockchainService: BlockchainService,
+    private readonly store: IndexerStore,
+    private readonly transactionsService: TransactionsService,
+  ) {}
+
+  /**
+   * Unclaimed winning and tied bets of an address across all coins, each
+   * confirmed by simulating claim() from that address. Ties are included
+   * because claim() succeeds for them, but it only marks the bet claimed:
+   * the stake is not refunded.
+   */
+  async getUnclaimed(address: string) {
+    const user = ethers.getAddress(address);
+
+    const candidates = this.store.getBets({ user }).filter(({ bet, round }) => {
+      if (bet.claimed || round?.status !== RoundStatus.Closed) return false;
+      const result = getBetResult(round.outcome, bet.position);
+      return result === 'won' || result === 'tie';
+    });
+
+    const claimable = await Promise.all(
+      candidates.map(async (record) =>
+        (await this.canClaim(user, record)) ? record : null,
+      ),
+    );
+
+    let totalPayout = 0n;
+    const rounds = [];
+    for (const record of claimable) {
+      if (record === null) continue;
+      const { bet, round } = record;
+
+      const tie = round.outcome === 'Tie';
+      const { payout, fee, userPayout } = tie
+        ? { payout: 0n, fee: 0n, userPayout: 0n }
+        : calculateClaim(
+            BigInt(round.totalBullAmount),
+            BigInt(round.totalBearAmount),
+            bet.position,
+            BigInt(bet.amount),
+          );
+      totalPayout += userPayout;
+
+      rounds.push({
+        coin: COINS[bet.coin],
+        roundId: bet.roundId.toString(),
+        position: bet.position,
+        amount: ethers.formatEther(bet.amount),
+        payout: ethers.formatEther(userPayout),
+        fee: ethers.formatEther(fee),
+        grossPayout: ethers.formatEther(payout),
+        // claim() marks a tied bet claimed without refunding the stake
+        tie,
+        transaction: await this.transactionsService.encode('claim', [
+          bet.coin,
+          bet.roundId,
+        ]),
+      });
+    }
+
+    return {
+      address: user,
+      rounds,
+      totalPayout: ethers.formatEther(totalPayout),
+    };
+  }
+
+  private async canClaim(user: string, { bet }: BetRecord): Promise<boolean> {
+    try {
+      await this.blockchainService.contract.claim.staticCall(
+        bet.coin,
+        bet.roundId,
+        { from: user },
+      );
+      return true;
+    } catch (error) {
+      // The index can lag behind the chain, e.g. a claim not indexed yet
+      if (isContractRevert(error)) return false;
+      throw toPredictionError(error, 'Failed to check claim');
+    }
+  }
+}
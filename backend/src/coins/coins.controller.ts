@@ -0,0 +1,12 @@
+import { Controller, Get } from '@nestjs/common';
+import { CoinsService } from './coins.service';
+
+@Controller('api/prediction')
+export class CoinsController {
+  constructor(private readonly coinsService: CoinsService) {}
+
+  @Get('coins')
+  getCoins() {
+    return this.coinsService.getCoins();
+  }
+}
@@ -0,0 +1,67 @@
+import { Injectable } from '@nestjs/common';
+import { ethers } from 'ethers';
+import { BlockchainService } from '../blockchain/blockchain.service';
+import { parseCoin } from '../blockchain/coins';
+import { COIN_NAMES, COINS } from '../blockchain/contract.constants';
+import { ORACLE_ABI } from '../blockchain/oracle.abi';
+import { toPredictionError } from '../common/errors/contract-errors';
+
+export interface CoinInfo {
+  symbol: string;
+  index: number;
+  name: string;
+  oracle: string;
+  decimals: number;
+  description: string;
+}
+
+/**
+ * The coins supported by the contract, with the metadata of each price
+ * oracle. Oracles are fixed at deployment, so they are read once.
+ */
+@Injectable()
+export class CoinsService {
+  private coins: Promise<CoinInfo[]> | null = null;
+
+  constructor(private readonly blockchainService: BlockchainService) {}
+
+  getCoins(): Promise<CoinInfo[]> {
+    if (!this.coins) {
+      this.coins = this.loadCoins().catch((error) => {
+        // Retry on the next call rather than caching the failure
+        this.coins = null;
+        throw toPredictionError(error, 'Failed to load coins');
+      });
+    }
+    return this.coins;
+  }
+
+  async getCoin(coin: string): Promise<CoinInfo> {
+    const coinEnum = parseCoin(coin);
+    return (await this.getCoins())[coinEnum];
+  }
+
+  private loadCoins(): Promise<CoinInfo[]> {
+    const { contract, provider } = this.blockchainService;
+
+    return Promise.all(
+      COINS.map(async (symbol, index) => {
+        const address: string = await contract.priceOracles(index);
+        const oracle = new ethers.Contract(address, ORACLE_ABI, provider);
+        const [decimals, description] = await Promise.all([
+          oracle.decimals(),
+          oracle.description(),
+        ]);
+
+        return {
+          symbol,
+          index,
+          name: COIN_NAMES[symbol],
+          oracle: address,
+          decimals: Number(decimals),
+          description,
+        };
+      }),
+    );
+  }
+}
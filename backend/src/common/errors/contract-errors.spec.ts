@@ -0,0 +1,97 @@
+import { toPredictionError } from './contract-errors';
+import {
+  ChainUnavailableError,
+  ContractConflictError,
+  ContractRejectedError,
+  ErrorCode,
+  InvalidParameterError,
+  RoundNotFoundError,
+} from './prediction.errors';
+
+// Shape of the error ethers throws when a call reverts with a reason
+function revert(reason: string) {
+  return Object.assign(new Error(`execution reverted: "${reason}"`), {
+    code: 'CALL_EXCEPTION',
+    reason,
+    revert: { name: 'Error', args: [reason] },
+  });
+}
+
+describe('toPredictionError', () => {
+  it('returns errors that already are PredictionErrors', () => {
+    const error = new InvalidParameterError('Invalid coin');
+    expect(toPredictionError(error, 'Failed to bet')).toBe(error);
+  });
+
+  it('maps a missing round to RoundNotFoundError', () => {
+    expect(
+      toPredictionError(revert('Round does not exist'), 'Failed to get round'),
+    ).toBeInstanceOf(RoundNotFoundError);
+  });
+
+  it.each([
+    ['Already bet in this round', ErrorCode.AlreadyBet],
+    ['Round is locked', ErrorCode.RoundLocked],
+    ['Already claimed', ErrorCode.AlreadyClaimed],
+  ])('maps "%s" to a conflict', (reason, code) => {
+    const error = toPredictionError(revert(reason), 'Failed to bet');
+    expect(error).toBeInstanceOf(ContractConflictError);
+    expect(error).toMatchObject({ code, message: reason, status: 409 });
+  });
+
+  it.each([
+    ['Too early to lock', ErrorCode.RoundNotReady],
+    ['Invalid price from oracle', ErrorCode.InvalidOraclePrice],
+    ['Not a winning bet', ErrorCode.NotWinningBet],
+  ])('maps "%s" to a rejection', (reason, code) => {
+    const error = toPredictionError(revert(reason), 'Failed to claim');
+    expect(error).toBeInstanceOf(ContractRejectedError);
+    expect(error).toMatchObject({ code, message: reason, status: 422 });
+  });
+
+  it('reports unknown reverts as CONTRACT_REVERTED with the context', () => {
+    const error = toPredictionError(
+      revert('Ownable: caller is not the owner'),
+      'Failed to pause',
+    );
+    expect(error).toBeInstanceOf(ContractRejectedError);
+    expect(error).toMatchObject({
+      code: ErrorCode.ContractReverted,
+      message: 'Failed to pause: Ownable: caller is not the owner',
+    });
+  });
+
+  it('reports reverts without a reason', () => {
+    const error = toPredictionError(
+      Object.assign(new Error('missing revert data'), {
+        code: 'CALL_EXCEPTION',
+      }),
+      'Failed to get round',
+    );
+    expect(error).toMatchObject({
+      code: ErrorCode.ContractReverted,
+      message: 'Failed to get round: execution reverted',
+    });
+  });
+
+  it('maps network failures to ChainUnavailableError', () => {
+    const timeout = Object.assign(new Error('request timeout'), {
+      code: 'TIMEOUT',
+    });
+    const refused = new Error('connect ECONNREFUSED 127.0.0.1:8545');
+
+    for (const error of [timeout, refused]) {
+      const mapped = toPredictionError(error, 'Failed to get round');
+      expect(mapped).toBeInstanceOf(ChainUnavailableError);
+      expect(mapped.message).toBe(
+        'Failed to get round: blockchain node unavailable',
+      );
+    }
+  });
+
+  it('wraps anything else in a plain error', () => {
+    const error = toPredictionError(new Error('boom'), 'Failed to get round');
+    expect(error.constructor).toBe(Error);
+    expect(error.message).toBe('Failed to get round: boom');
+  });
+});
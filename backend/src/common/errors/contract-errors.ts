@@ -0,0 +1,94 @@
+import {
+  ChainUnavailableError,
+  ContractConflictError,
+  ContractRejectedError,
+  ErrorCode,
+  PredictionError,
+  RoundNotFoundError,
+} from './prediction.errors';
+
+// require() messages from MultiCoinPredictionMarket.sol, by outcome
+const CONFLICT_REASONS: { [reason: string]: ErrorCode } = {
+  'Round is locked': ErrorCode.RoundLocked,
+  'Round not open': ErrorCode.RoundLocked,
+  'Round already locked': ErrorCode.RoundLocked,
+  'Already bet in this round': ErrorCode.AlreadyBet,
+  'Already claimed': ErrorCode.AlreadyClaimed,
+  'Round already closed': ErrorCode.RoundAlreadySettled,
+  'Next round already exists': ErrorCode.RoundAlreadySettled,
+};
+
+const REJECTED_REASONS: { [reason: string]: ErrorCode } = {
+  'Too early to lock': ErrorCode.RoundNotReady,
+  'Too early to close': ErrorCode.RoundNotReady,
+  'Round must be locked first': ErrorCode.RoundNotReady,
+  'Round not closed': ErrorCode.RoundNotReady,
+  'Current round must be closed': ErrorCode.RoundNotReady,
+  'Invalid price from oracle': ErrorCode.InvalidOraclePrice,
+  'Invalid price': ErrorCode.InvalidOraclePrice,
+  'Round not complete': ErrorCode.InvalidOraclePrice,
+  'Bet amount must be greater than 0': ErrorCode.InvalidBetAmount,
+  'No bet placed': ErrorCode.NoBetPlaced,
+  'Not a winning bet': ErrorCode.NotWinningBet,
+  'No winners in this round': ErrorCode.NoWinners,
+};
+
+// ethers error codes raised when the node can't be reached or times out
+const NETWORK_ERROR_CODES = ['NETWORK_ERROR', 'SERVER_ERROR', 'TIMEOUT'];
+const SOCKET_ERROR_CODES = [
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+];
+
+/**
+ * Revert reason string of a failed call, if the node returned one
+ */
+export function getRevertReason(error: any): string | null {
+  return error?.revert?.args?.[0] ?? error?.reason ?? null;
+}
+
+/**
+ * Whether a failed call was rejected by the contract rather than by the
+ * node or the network
+ */
+export function isContractRevert(error: any): boolean {
+  return error?.code === 'CALL_EXCEPTION';
+}
+
+/**
+ * Translate an error from an ethers contract call into a PredictionError.
+ * Unknown reverts become CONTRACT_REVERTED, anything else is rethrown as is.
+ */
+export function toPredictionError(error: any, context: string): Error {
+  if (error instanceof PredictionError) {
+    return error;
+  }
+
+  const reason = getRevertReason(error);
+  if (reason === 'Round does not exist') {
+    return new RoundNotFoundError();
+  }
+  if (reason in CONFLICT_REASONS) {
+    return new ContractConflictError(CONFLICT_REASONS[reason], reason);
+  }
+  if (reason in REJECTED_REASONS) {
+    return new ContractRejectedError(REJECTED_REASONS[reason], reason);
+  }
+  if (isContractRevert(error)) {
+    return new ContractRejectedError(
+      ErrorCode.ContractReverted,
+      `${context}: ${reason ?? 'execution reverted'}`,
+    );
+  }
+
+  if (
+    NETWORK_ERROR_CODES.includes(error?.code) ||
+    SOCKET_ERROR_CODES.some((code) => String(error?.message).includes(code))
+  ) {
+    return new ChainUnavailableError(`${context}: blockchain node unavailable`);
+  }
+
+  return new Error(`${context}: ${error?.message ?? error}`);
+}
@@ -0,0 +1,97 @@
+import { HttpStatus } from '@nestjs/common';
+
+/**
+ * Stable machine-readable codes returned in error responses
+ */
+export enum ErrorCode {
+  InvalidParameter = 'INVALID_PARAMETER',
+  Unauthorized = 'UNAUTHORIZED',
+  RoundNotFound = 'ROUND_NOT_FOUND',
+  RoundLocked = 'ROUND_LOCKED',
+  AlreadyBet = 'ALREADY_BET',
+  AlreadyClaimed = 'ALREADY_CLAIMED',
+  RoundAlreadySettled = 'ROUND_ALREADY_SETTLED',
+  RoundNotReady = 'ROUND_NOT_READY',
+  InvalidOraclePrice = 'INVALID_ORACLE_PRICE',
+  InvalidBetAmount = 'INVALID_BET_AMOUNT',
+  InsufficientBalance = 'INSUFFICIENT_BALANCE',
+  NoBetPlaced = 'NO_BET_PLACED',
+  NotWinningBet = 'NOT_WINNING_BET',
+  NoWinners = 'NO_WINNERS',
+  ContractReverted = 'CONTRACT_REVERTED',
+  ChainUnavailable = 'CHAIN_UNAVAILABLE',
+  WebhookNotFound = 'WEBHOOK_NOT_FOUND',
+}
+
+/**
+ * Base class for errors the API reports with a code and HTTP status
+ */
+export abstract class PredictionError extends Error {
+  abstract readonly status: HttpStatus;
+
+  constructor(
+    readonly code: ErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+// 400: a request parameter is malformed
+export class InvalidParameterError extends PredictionError {
+  readonly status = HttpStatus.BAD_REQUEST;
+
+  constructor(
+    message: string,
+    readonly details: string[] = [],
+  ) {
+    super(ErrorCode.InvalidParameter, message);
+  }
+}
+
+// 401: an admin endpoint was called without a valid ADMIN_API_KEY
+export class UnauthorizedError extends PredictionError {
+  readonly status = HttpStatus.UNAUTHORIZED;
+
+  constructor(message = 'Invalid or missing admin API key') {
+    super(ErrorCode.Unauthorized, message);
+  }
+}
+
+// 404: the requested round has never been created
+export class RoundNotFoundError extends PredictionError {
+  readonly status = HttpStatus.NOT_FOUND;
+
+  constructor(message = 'Round does not exist') {
+    super(ErrorCode.RoundNotFound, message);
+  }
+}
+
+// 404: no webhook subscription has the requested id
+export class WebhookNotFoundError extends PredictionError {
+  readonly status = HttpStatus.NOT_FOUND;
+
+  constructor(message = 'Webhook subscription does not exist') {
+    super(ErrorCode.WebhookNotFound, message);
+  }
+}
+
+// 409: the action conflicts with the current state of a round or bet
+export class ContractConflictError extends PredictionError {
+  readonly status = HttpStatus.CONFLICT;
+}
+
+// 422: the contract rejected otherwise well-formed input
+export class ContractRejectedError extends PredictionError {
+  readonly status = HttpStatus.UNPROCESSABLE_ENTITY;
+}
+
+// 503: the RPC node could not be reached or did not answer
+export class ChainUnavailableError extends PredictionError {
+  readonly status = HttpStatus.SERVICE_UNAVAILABLE;
+
+  constructor(message = 'Blockchain node unavailable') {
+    super(ErrorCode.ChainUnavailable, message);
+  }
+}
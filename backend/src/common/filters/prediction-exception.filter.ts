@@ -0,0 +1,68 @@
+import {
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { Response } from 'express';
+import {
+  InvalidParameterError,
+  PredictionError,
+} from '../errors/prediction.errors';
+
+/**
+ * Renders every HTTP error as { statusCode, code, message, details? }.
+ * PredictionErrors carry their own code; other HttpExceptions use the
+ * status name (e.g. NOT_FOUND) and anything else becomes a 500.
+ */
+@Catch()
+export class PredictionExceptionFilter implements ExceptionFilter {
+  private readonly logger = new Logger(PredictionExceptionFilter.name);
+
+  catch(exception: unknown, host: ArgumentsHost) {
+    // WebSocket and other transports keep their own error handling
+    if (host.getType() !== 'http') {
+      throw exception;
+    }
+
+    const response = host.switchToHttp().getResponse<Response>();
+
+    if (exception instanceof PredictionError) {
+      response.status(exception.status).json({
+        statusCode: exception.status,
+        code: exception.code,
+        message: exception.message,
+        ...(exception instanceof InvalidParameterError &&
+        exception.details.length > 0
+          ? { details: exception.details }
+          : {}),
+      });
+      return;
+    }
+
+    if (exception instanceof HttpException) {
+      const status = exception.getStatus();
+      const body = exception.getResponse();
+      const message =
+        typeof body === 'string' ? body : (body as any).message ?? exception.message;
+
+      response.status(status).json({
+        statusCode: status,
+        code: HttpStatus[status] ?? 'HTTP_ERROR',
+        message: Array.isArray(message) ? message.join(', ') : message,
+      });
+      return;
+    }
+
+    this.logger.error(
+      exception instanceof Error ? exception.stack : String(exception),
+    );
+    response.status(HttpStatus.INTERNAL_SERVER_ERROR).json({
+      statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+      code: 'INTERNAL_ERROR',
+      message: 'Internal server error',
+    });
+  }
+}
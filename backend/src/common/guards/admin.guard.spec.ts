@@ -0,0 +1,42 @@
+import { ExecutionContext } from '@nestjs/common';
+import { UnauthorizedError } from '../errors/prediction.errors';
+import { AdminGuard } from './admin.guard';
+
+const API_KEY = 'test-admin-key-0123456789';
+
+function createGuard(apiKey: string | undefined) {
+  return new AdminGuard({ get: () => apiKey } as any);
+}
+
+function request(authorization?: string): ExecutionContext {
+  return {
+    switchToHttp: () => ({
+      getRequest: () => ({ headers: { authorization } }),
+    }),
+  } as any;
+}
+
+describe('AdminGuard', () => {
+  it('lets a request with the bearer key through', () => {
+    expect(
+      createGuard(API_KEY).canActivate(request(`Bearer ${API_KEY}`)),
+    ).toBe(true);
+  });
+
+  it.each([
+    ['no header', undefined],
+    ['a wrong key', 'Bearer wrong-key'],
+    ['another scheme', `Basic ${API_KEY}`],
+    ['an empty token', 'Bearer '],
+  ])('refuses %s', (_, authorization) => {
+    expect(() =>
+      createGuard(API_KEY).canActivate(request(authorization)),
+    ).toThrow(UnauthorizedError);
+  });
+
+  it('refuses everything while ADMIN_API_KEY is unset', () => {
+    expect(() =>
+      createGuard(undefined).canActivate(request('Bearer anything')),
+    ).toThrow('Admin endpoints need ADMIN_API_KEY set');
+  });
+});
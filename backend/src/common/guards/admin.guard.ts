@@ -0,0 +1,38 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+import { EnvironmentVariables } from '../../config/env.validation';
+import { UnauthorizedError } from '../errors/prediction.errors';
+
+/**
+ * Lets a request through when it carries `Authorization: Bearer
+ * <ADMIN_API_KEY>`. Every request is refused while ADMIN_API_KEY is unset.
+ */
+@Injectable()
+export class AdminGuard implements CanActivate {
+  constructor(
+    private readonly configService: ConfigService<EnvironmentVariables, true>,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const apiKey = this.configService.get('ADMIN_API_KEY', { infer: true });
+    if (!apiKey) {
+      throw new UnauthorizedError('Admin endpoints need ADMIN_API_KEY set');
+    }
+
+    const request = context.switchToHttp().getRequest<Request>();
+    const [scheme, token] = (request.headers.authorization ?? '').split(' ');
+    // Compared as digests so the check takes the same time for any length
+    const digest = (value: string) =>
+      createHash('sha256').update(value).digest();
+    if (
+      scheme !== 'Bearer' ||
+      !token ||
+      !timingSafeEqual(digest(token), digest(apiKey))
+    ) {
+      throw new UnauthorizedError();
+    }
+    return true;
+  }
+}
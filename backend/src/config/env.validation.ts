@@ -0,0 +1,241 @@
+import { plainToInstance, Transform } from 'class-transformer';
+import {
+  IsBoolean,
+  IsEthereumAddress,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Matches,
+  Max,
+  Min,
+  MinLength,
+  validateSync,
+} from 'class-validator';
+
+const PRIVATE_KEY = /^0x[0-9a-fA-F]{64}$/;
+
+// Implicit conversion would turn the string "false" into true
+const toBoolean = () =>
+  Transform(({ obj, key }) => obj[key] === true || obj[key] === 'true');
+
+/**
+ * Environment variables read by the backend, with their defaults.
+ * Validated once at boot; inject ConfigService<EnvironmentVariables, true>
+ * to read them with their parsed types.
+ */
+export class EnvironmentVariables {
+  // HTTP server
+  @IsInt()
+  @Min(1)
+  @Max(65535)
+  PORT: number = 3001;
+
+  @IsString()
+  CORS_ORIGIN: string = 'http://localhost:3000';
+
+  // Bearer token for the /api/admin endpoints, refused while unset
+  @IsOptional()
+  @MinLength(16, { message: 'ADMIN_API_KEY must be at least 16 characters' })
+  ADMIN_API_KEY?: string;
+
+  // Chain and contract
+  @IsUrl({ require_tld: false, protocols: ['http', 'https', 'ws', 'wss'] })
+  RPC_URL: string = 'http://127.0.0.1:8545';
+
+  @IsOptional()
+  @IsInt()
+  CHAIN_ID?: number;
+
+  @IsEthereumAddress()
+  CONTRACT_ADDRESS: string;
+
+  // Resolved from the working directory (the backend folder under npm scripts)
+  @IsString()
+  CONTRACT_ABI_PATH: string =
+    '../artifacts/contracts/MultiCoinPredictionMarket.sol/MultiCoinPredictionMarket.json';
+
+  // Canonical Multicall3 address; the deploy scripts install it locally
+  @IsEthereumAddress()
+  MULTICALL_ADDRESS: string = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+  // Contract read cache
+  @toBoolean()
+  @IsBoolean()
+  CACHE_ENABLED: boolean = true;
+
+  @IsInt()
+  @Min(100)
+  CACHE_POLL_INTERVAL_MS: number = 1000;
+
+  // Event indexer
+  @toBoolean()
+  @IsBoolean()
+  INDEXER_ENABLED: boolean = true;
+
+  @IsString()
+  INDEXER_DB_PATH: string = 'data/indexer.db';
+
+  @IsInt()
+  @Min(0)
+  INDEXER_START_BLOCK: number = 0;
+
+  @IsInt()
+  @Min(1)
+  INDEXER_BATCH_SIZE: number = 2000;
+
+  @IsInt()
+  @Min(100)
+  INDEXER_POLL_INTERVAL_MS: number = 5000;
+
+  @IsInt()
+  @Min(0)
+  INDEXER_CONFIRMATIONS: number = 0;
+
+  // Solvency monitor
+  @toBoolean()
+  @IsBoolean()
+  SOLVENCY_ENABLED: boolean = true;
+
+  @IsInt()
+  @Min(1000)
+  SOLVENCY_INTERVAL_MS: number = 60000;
+
+  // Ether; growth of trapped funds between two checks above it alerts
+  @Matches(/^\d+(\.\d{1,18})?$/, {
+    message: 'SOLVENCY_TRAPPED_ALERT_THRESHOLD must be a decimal ether amount',
+  })
+  SOLVENCY_TRAPPED_ALERT_THRESHOLD: string = '0';
+
+  // Oracle monitor
+  @toBoolean()
+  @IsBoolean()
+  ORACLE_MONITOR_ENABLED: boolean = true;
+
+  @IsInt()
+  @Min(1000)
+  ORACLE_POLL_INTERVAL_MS: number = 30000;
+
+  @IsInt()
+  @Min(1)
+  ORACLE_STALE_AFTER_SECONDS: number = 3600;
+
+  @IsNumber()
+  @Min(0)
+  ORACLE_DEVIATION_PERCENT: number = 5;
+
+  // Stuck-round watchdog
+  @toBoolean()
+  @IsBoolean()
+  WATCHDOG_ENABLED: boolean = true;
+
+  @IsInt()
+  @Min(1000)
+  WATCHDOG_INTERVAL_MS: number = 15000;
+
+  @IsInt()
+  @Min(0)
+  WATCHDOG_GRACE_SECONDS: number = 60;
+
+  // Alert sinks, comma separated
+  @Matches(/^(log|webhook)(,(log|webhook))*$/, {
+    message: 'ALERT_SINKS must be a comma-separated list of log, webhook',
+  })
+  ALERT_SINKS: string = 'log';
+
+  @IsOptional()
+  @IsUrl({ require_tld: false, protocols: ['http', 'https'] })
+  ALERT_WEBHOOK_URL?: string;
+
+  // Webhook subscriptions
+  @IsString()
+  WEBHOOK_DB_PATH: string = 'data/webhooks.db';
+
+  @IsInt()
+  @Min(1)
+  WEBHOOK_MAX_ATTEMPTS: number = 8;
+
+  @IsInt()
+  @Min(0)
+  WEBHOOK_BACKOFF_BASE_MS: number = 2000;
+
+  @IsInt()
+  @Min(0)
+  WEBHOOK_BACKOFF_MAX_MS: number = 600000;
+
+  @IsInt()
+  @Min(100)
+  WEBHOOK_TIMEOUT_MS: number = 5000;
+
+  // WebSocket gateway
+  @IsInt()
+  @Min(100)
+  REALTIME_PRICE_INTERVAL_MS: number = 5000;
+
+  // Round keeper
+  @IsOptional()
+  @Matches(PRIVATE_KEY, {
+    message: 'KEEPER_PRIVATE_KEY must be a 0x-prefixed 32-byte hex key',
+  })
+  KEEPER_PRIVATE_KEY?: string;
+
+  @IsInt()
+  @Min(100)
+  KEEPER_INTERVAL_MS: number = 5000;
+
+  @IsInt()
+  @Min(0)
+  KEEPER_BACKOFF_BASE_MS: number = 2000;
+
+  @IsInt()
+  @Min(0)
+  KEEPER_BACKOFF_MAX_MS: number = 60000;
+
+  @IsInt()
+  @Min(1000)
+  KEEPER_TX_TIMEOUT_MS: number = 60000;
+
+  // Mock price simulator
+  @toBoolean()
+  @IsBoolean()
+  SIMULATOR_ENABLED: boolean = false;
+
+  @IsOptional()
+  @Matches(PRIVATE_KEY, {
+    message: 'SIMULATOR_PRIVATE_KEY must be a 0x-prefixed 32-byte hex key',
+  })
+  SIMULATOR_PRIVATE_KEY?: string;
+
+  @IsIn(['random-walk', 'gbm'])
+  SIMULATOR_MODEL: 'random-walk' | 'gbm' = 'random-walk';
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  SIMULATOR_SEED?: number;
+
+  @IsInt()
+  @Min(100)
+  SIMULATOR_INTERVAL_MS: number = 10000;
+
+  @IsString()
+  SIMULATOR_DATA_DIR: string = 'data/prices';
+}
+
+export function validate(config: Record<string, unknown>) {
+  const validated = plainToInstance(EnvironmentVariables, config, {
+    enableImplicitConversion: true,
+  });
+  const errors = validateSync(validated, { skipMissingProperties: false });
+
+  if (errors.length > 0) {
+    const messages = errors.flatMap((error) =>
+      Object.values(error.constraints ?? {}),
+    );
+    throw new Error(`Invalid configuration:\n  - ${messages.join('\n  - ')}`);
+  }
+
+  return validated;
+}
@@ -0,0 +1,17 @@
+import { Controller, Get, Param, Query } from '@nestjs/common';
+import { CoinParams } from '../prediction/dto/prediction.dto';
+import { DashboardService } from './dashboard.service';
+import { DashboardQuery } from './dto/dashboard.dto';
+
+@Controller('api/prediction')
+export class DashboardController {
+  constructor(private readonly dashboardService: DashboardService) {}
+
+  @Get('dashboard/:coin')
+  getDashboard(
+    @Param() { coin }: CoinParams,
+    @Query() { expired }: DashboardQuery,
+  ) {
+    return this.dashboardService.getDashboard(coin, expired);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { CoinsModule } from '../coins/coins.module';
+import { DashboardController } from './dashboard.controller';
+import { DashboardService } from './dashboard.service';
+
+@Module({
+  imports: [CoinsModule],
+  controllers: [DashboardController],
+  providers: [DashboardService],
+  exports: [DashboardService],
+})
+export class DashboardModule {}
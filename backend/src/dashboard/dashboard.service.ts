@@ -0,0 +1,123 @@
+import { Injectable } from '@nestjs/common';
+import { ethers } from 'ethers';
+import { BlockchainService } from '../blockchain/blockchain.service';
+import { RoundStatus } from '../blockchain/contract.constants';
+import {
+  MulticallResult,
+  MulticallService,
+} from '../blockchain/multicall.service';
+import { getPayoutMultipliers } from '../blockchain/round-math';
+import { CoinsService } from '../coins/coins.service';
+import { toPredictionError } from '../common/errors/contract-errors';
+import {
+  ContractRejectedError,
+  ErrorCode,
+} from '../common/errors/prediction.errors';
+import { formatRound } from '../prediction/round.format';
+
+/**
+ * Everything the market view needs for one coin, read through Multicall3
+ * at a single block so the rounds, price and timestamp agree
+ */
+@Injectable()
+export class DashboardService {
+  constructor(
+    private readonly blockchainService: BlockchainService,
+    private readonly multicallService: MulticallService,
+    private readonly coinsService: CoinsService,
+  ) {}
+
+  async getDashboard(coin: string, expired: number) {
+    const { index, symbol, decimals } = await this.coinsService.getCoin(coin);
+    const { contract, provider } = this.blockchainService;
+    const { multicall } = this.multicallService;
+
+    try {
+      const blockNumber = await provider.getBlockNumber();
+
+      // The round ids depend on currentRound, so the rounds are read in a
+      // second batch pinned to the same block
+      const [currentRound, price, timestamp] =
+        await this.multicallService.aggregate(
+          [
+            { contract, method: 'currentRound', args: [index] },
+            { contract, method: 'getCurrentPrice', args: [index] },
+            { contract: multicall, method: 'getCurrentBlockTimestamp' },
+          ],
+          blockNumber,
+        );
+
+      const currentRoundId: bigint = this.unwrap(currentRound, 'currentRound');
+      const roundIds: bigint[] = [];
+      for (
+        let roundId = currentRoundId;
+        roundId >= 1n && roundIds.length < expired + 2;
+        roundId--
+      ) {
+        roundIds.push(roundId);
+      }
+
+      const rounds = (
+        await this.multicallService.aggregate(
+          roundIds.map((roundId) => ({
+            contract,
+            method: 'getRound',
+            args: [index, roundId],
+          })),
+          blockNumber,
+        )
+      ).map(({ success, result }) =>
+        // A round that can't be read is left out rather than failing the view
+        success ? this.toRound(result[0]) : null,
+      );
+
+      // lockRound opens the next round straight away, so the round below
+      // the current one is live until it is closed
+      const [next = null, ...previous] = rounds;
+      const live =
+        previous[0]?.status === RoundStatus.Locked ? previous.shift() : null;
+      const blockTimestamp: bigint = this.unwrap(
+        timestamp,
+        'getCurrentBlockTimestamp',
+      );
+
+      return {
+        coin: symbol,
+        blockNumber,
+        blockTimestamp: blockTimestamp.toString(),
+        // getCurrentPrice reverts on an invalid oracle answer
+        price: price.success
+          ? {
+              price: ethers.formatUnits(price.result[0], decimals),
+              raw: price.result[0].toString(),
+            }
+          : null,
+        next,
+        live,
+        expired: previous
+          .filter((round) => round?.status === RoundStatus.Closed)
+          .slice(0, expired),
+      };
+    } catch (error) {
+      throw toPredictionError(error, 'Failed to get dashboard');
+    }
+  }
+
+  // First return value of a call the dashboard can't do without
+  private unwrap({ success, result }: MulticallResult, method: string) {
+    if (!success) {
+      throw new ContractRejectedError(
+        ErrorCode.ContractReverted,
+        `Failed to get dashboard: ${method} reverted`,
+      );
+    }
+    return result[0];
+  }
+
+  private toRound(roundData: ethers.Result) {
+    return {
+      ...formatRound(roundData),
+      payoutMultipliers: getPayoutMultipliers(roundData[7], roundData[8]),
+    };
+  }
+}
@@ -0,0 +1,12 @@
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export class DashboardQuery {
+  // Number of expired (closed) rounds to include
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'expired must be an integer' })
+  @Min(0)
+  @Max(20)
+  expired: number = 5;
+}
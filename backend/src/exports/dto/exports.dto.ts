@@ -0,0 +1,48 @@
+import { IsIn, IsOptional } from 'class-validator';
+import {
+  IsCoin,
+  IsRoundId,
+  IsTimestamp,
+} from '../../prediction/dto/prediction.dto';
+
+export class BetExportQuery {
+  @IsOptional()
+  @IsIn(['csv', 'json'], { message: 'format must be csv or json' })
+  format: 'csv' | 'json' = 'csv';
+
+  // All coins when omitted
+  @IsOptional()
+  @IsCoin()
+  coin?: string;
+
+  // Bounds on the time the bet was placed at
+  @IsOptional()
+  @IsTimestamp('from')
+  from?: number;
+
+  @IsOptional()
+  @IsTimestamp('to')
+  to?: number;
+}
+
+export class RoundExportQuery {
+  @IsOptional()
+  @IsIn(['csv', 'ndjson', 'parquet'], {
+    message: 'format must be csv, ndjson or parquet',
+  })
+  format: 'csv' | 'ndjson' | 'parquet' = 'csv';
+
+  // All coins when omitted
+  @IsOptional()
+  @IsCoin()
+  coin?: string;
+
+  @IsOptional()
+  @IsRoundId('fromRoundId')
+  fromRoundId: number = 1;
+
+  // Defaults to the largest chunk allowed after fromRoundId
+  @IsOptional()
+  @IsRoundId('toRoundId')
+  toRoundId?: number;
+}
@@ -0,0 +1,110 @@
+import * as parquet from 'parquetjs-lite';
+import { PassThrough, Readable } from 'stream';
+
+export type ExportValue = string | number | boolean | null;
+
+export type ExportRow = Record<string, ExportValue>;
+
+// A generated file, streamed to the client as an attachment
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  stream: Readable;
+}
+
+export const CSV_CONTENT_TYPE = 'text/csv; charset=utf-8';
+export const JSON_CONTENT_TYPE = 'application/json; charset=utf-8';
+export const NDJSON_CONTENT_TYPE = 'application/x-ndjson; charset=utf-8';
+export const PARQUET_CONTENT_TYPE = 'application/vnd.apache.parquet';
+
+// Parquet type of each column; every column is nullable
+export type ParquetColumns = Record<
+  string,
+  'UTF8' | 'INT64' | 'DOUBLE' | 'BOOLEAN'
+>;
+
+/**
+ * CSV with a header line, quoting fields as in RFC 4180. Null values are
+ * left empty.
+ */
+export async function* toCsv(
+  columns: readonly string[],
+  rows: Iterable<ExportRow>,
+): AsyncGenerator<string> {
+  yield csvLine(columns);
+  for (const row of rows) {
+    yield csvLine(columns.map((column) => row[column]));
+  }
+}
+
+/**
+ * A JSON array written one element at a time
+ */
+export async function* toJsonArray(
+  rows: Iterable<ExportRow>,
+): AsyncGenerator<string> {
+  let separator = '[\n';
+  for (const row of rows) {
+    yield separator + JSON.stringify(row);
+    separator = ',\n';
+  }
+  yield separator === '[\n' ? '[]\n' : '\n]\n';
+}
+
+/**
+ * One JSON object per line
+ */
+export async function* toNdjson(
+  rows: Iterable<ExportRow>,
+): AsyncGenerator<string> {
+  for (const row of rows) {
+    yield JSON.stringify(row) + '\n';
+  }
+}
+
+/**
+ * A Parquet file with the given columns. Decimal strings are converted for
+ * DOUBLE columns. The writer waits on the returned stream, so rows are only
+ * encoded as fast as the client reads them.
+ */
+export function toParquet(
+  columns: ParquetColumns,
+  rows: Iterable<ExportRow>,
+): Readable {
+  const output = new PassThrough();
+  const schema = new parquet.ParquetSchema(
+    Object.fromEntries(
+      Object.entries(columns).map(([name, type]) => [
+        name,
+        { type, optional: true },
+      ]),
+    ),
+  );
+
+  (async () => {
+    const writer = await parquet.ParquetWriter.openStream(schema, output);
+    for (const row of rows) {
+      const record: Record<string, ExportValue> = {};
+      for (const [name, type] of Object.entries(columns)) {
+        const value = row[name];
+        if (value === null || value === undefined) continue;
+        record[name] = type === 'DOUBLE' ? Number(value) : value;
+      }
+      await writer.appendRow(record);
+    }
+    await writer.close();
+  })().catch((error) => output.destroy(error));
+
+  return output;
+}
+
+function csvLine(values: readonly ExportValue[]): string {
+  return (
+    values
+      .map((value) => {
+        const text = value === null || value === undefined ? '' : String(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      })
+      .join(',') + '\r\n'
+  );
+}
@@ -0,0 +1,43 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  Res,
+  StreamableFile,
+} from '@nestjs/common';
+import { Response } from 'express';
+import { AddressParams } from '../prediction/dto/prediction.dto';
+import { BetExportQuery, RoundExportQuery } from './dto/exports.dto';
+import { ExportFile } from './export.format';
+import { ExportsService } from './exports.service';
+
+@Controller('api/prediction')
+export class ExportsController {
+  constructor(private readonly exportsService: ExportsService) {}
+
+  @Get('users/:address/bets/export')
+  async exportUserBets(
+    @Param() { address }: AddressParams,
+    @Query() query: BetExportQuery,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    return this.send(
+      await this.exportsService.exportUserBets(address, query),
+      res,
+    );
+  }
+
+  @Get('export/rounds')
+  async exportRounds(
+    @Query() query: RoundExportQuery,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    return this.send(await this.exportsService.exportRounds(query), res);
+  }
+
+  private send({ filename, contentType, stream }: ExportFile, res: Response) {
+    res.set('Content-Disposition', `attachment; filename="${filename}"`);
+    return new StreamableFile(stream, { type: contentType });
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { CoinsModule } from '../coins/coins.module';
+import { IndexerModule } from '../indexer/indexer.module';
+import { ExportsController } from './exports.controller';
+import { ExportsService } from './exports.service';
+
+@Module({
+  imports: [IndexerModule, CoinsModule],
+  controllers: [ExportsController],
+  providers: [ExportsService],
+})
+export class ExportsModule {}
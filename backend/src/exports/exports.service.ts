@@ -0,0 +1,248 @@
+import { Injectable } from '@nestjs/common';
+import { ethers } from 'ethers';
+import { Readable } from 'stream';
+import { parseCoin } from '../blockchain/coins';
+import {
+  COINS,
+  Position,
+  RoundStatus,
+} from '../blockchain/contract.constants';
+import { settleBet } from '../blockchain/round-math';
+import { CoinInfo, CoinsService } from '../coins/coins.service';
+import { InvalidParameterError } from '../common/errors/prediction.errors';
+import { IndexerService } from '../indexer/indexer.service';
+import { IndexerStore } from '../indexer/indexer.store';
+import { BetRecord, RoundWithBettors } from '../indexer/indexer.types';
+import { BetExportQuery, RoundExportQuery } from './dto/exports.dto';
+import {
+  CSV_CONTENT_TYPE,
+  ExportFile,
+  ExportRow,
+  JSON_CONTENT_TYPE,
+  NDJSON_CONTENT_TYPE,
+  PARQUET_CONTENT_TYPE,
+  ParquetColumns,
+  toCsv,
+  toJsonArray,
+  toNdjson,
+  toParquet,
+} from './export.format';
+
+const BET_COLUMNS = [
+  'timestamp',
+  'coin',
+  'roundId',
+  'position',
+  'stake',
+  'lockPrice',
+  'closePrice',
+  'outcome',
+  'result',
+  'grossPayout',
+  'treasuryFee',
+  'netPayout',
+  'claimed',
+  'claimedAt',
+  'transactionHash',
+  'claimTransactionHash',
+] as const;
+
+// Column order of the round dataset, with the Parquet type of each column.
+// Parquet stores prices and amounts as doubles, the text formats keep the
+// exact decimal strings.
+const ROUND_COLUMNS: ParquetColumns = {
+  coin: 'UTF8',
+  roundId: 'INT64',
+  status: 'UTF8',
+  startTimestamp: 'INT64',
+  lockTimestamp: 'INT64',
+  closeTimestamp: 'INT64',
+  lockedAt: 'INT64',
+  closedAt: 'INT64',
+  lockPrice: 'DOUBLE',
+  closePrice: 'DOUBLE',
+  totalBullAmount: 'DOUBLE',
+  totalBearAmount: 'DOUBLE',
+  totalAmount: 'DOUBLE',
+  winner: 'UTF8',
+  bettors: 'INT64',
+  bullBettors: 'INT64',
+  bearBettors: 'INT64',
+};
+
+// Largest round range per coin in one download
+const MAX_EXPORT_ROUNDS = 10000;
+
+/**
+ * File exports built from the indexer store, streamed row by row
+ */
+@Injectable()
+export class ExportsService {
+  constructor(
+    private readonly store: IndexerStore,
+    private readonly indexerService: IndexerService,
+    private readonly coinsService: CoinsService,
+  ) {}
+
+  /**
+   * Every indexed bet of an address, oldest first. Amounts are in ether and
+   * prices in oracle units; payouts follow claim(), so ties and losses pay
+   * nothing.
+   */
+  async exportUserBets(
+    address: string,
+    query: BetExportQuery,
+  ): Promise<ExportFile> {
+    if (
+      query.from !== undefined &&
+      query.to !== undefined &&
+      query.from > query.to
+    ) {
+      throw new InvalidParameterError('Invalid time range', [
+        'from must not be after to',
+      ]);
+    }
+
+    // Loaded up front so a chain error fails the request, not the stream
+    const coins = await this.coinsService.getCoins();
+    // Read in full before streaming: an open SQLite cursor would block the
+    // indexer's writes for as long as the download takes
+    const records = await this.indexerService.resolveTieClaims(
+      this.store.getBets({
+        user: address,
+        coin: query.coin === undefined ? undefined : parseCoin(query.coin),
+        from: query.from,
+        to: query.to,
+        order: 'asc',
+      }),
+    );
+    const rows = records.map((record) => formatBetRow(record, coins));
+
+    const filename = `bets-${ethers.getAddress(address)}.${query.format}`;
+    return query.format === 'csv'
+      ? {
+          filename,
+          contentType: CSV_CONTENT_TYPE,
+          stream: Readable.from(toCsv(BET_COLUMNS, rows)),
+        }
+      : {
+          filename,
+          contentType: JSON_CONTENT_TYPE,
+          stream: Readable.from(toJsonArray(rows)),
+        };
+  }
+
+  /**
+   * Every indexed round of a coin, or of all coins, in a roundId range.
+   * Larger datasets are downloaded in chunks of consecutive ranges.
+   */
+  async exportRounds(query: RoundExportQuery): Promise<ExportFile> {
+    const fromRoundId = query.fromRoundId;
+    const toRoundId = query.toRoundId ?? fromRoundId + MAX_EXPORT_ROUNDS - 1;
+    if (toRoundId < fromRoundId) {
+      throw new InvalidParameterError('Invalid round range', [
+        'toRoundId must not be less than fromRoundId',
+      ]);
+    }
+    if (toRoundId - fromRoundId + 1 > MAX_EXPORT_ROUNDS) {
+      throw new InvalidParameterError('Invalid round range', [
+        `a range must span at most ${MAX_EXPORT_ROUNDS} rounds`,
+      ]);
+    }
+
+    const coins = await this.coinsService.getCoins();
+    const coinEnums =
+      query.coin === undefined
+        ? coins.map(({ index }) => index)
+        : [parseCoin(query.coin)];
+    const rows = coinEnums.flatMap((coin) =>
+      this.store
+        .getRoundRange(coin, fromRoundId, toRoundId)
+        .map((record) => formatRoundRow(record, coins)),
+    );
+
+    const coin = query.coin ?? 'ALL';
+    const filename = `rounds-${coin}-${fromRoundId}-${toRoundId}.${query.format}`;
+    switch (query.format) {
+      case 'csv':
+        return {
+          filename,
+          contentType: CSV_CONTENT_TYPE,
+          stream: Readable.from(toCsv(Object.keys(ROUND_COLUMNS), rows)),
+        };
+      case 'ndjson':
+        return {
+          filename,
+          contentType: NDJSON_CONTENT_TYPE,
+          stream: Readable.from(toNdjson(rows)),
+        };
+      case 'parquet':
+        return {
+          filename,
+          contentType: PARQUET_CONTENT_TYPE,
+          stream: toParquet(ROUND_COLUMNS, rows),
+        };
+    }
+  }
+}
+
+function formatBetRow({ bet, round }: BetRecord, coins: CoinInfo[]): ExportRow {
+  const { result, payout, fee, userPayout } = settleBet({ bet, round });
+  const formatPrice = (price: string | null) =>
+    price === null ? null : ethers.formatUnits(price, coins[bet.coin].decimals);
+
+  return {
+    timestamp: toIsoString(bet.placedAt),
+    coin: COINS[bet.coin],
+    roundId: bet.roundId,
+    position: bet.position === Position.Bull ? 'Bull' : 'Bear',
+    stake: ethers.formatEther(bet.amount),
+    lockPrice: formatPrice(round?.lockPrice ?? null),
+    closePrice: formatPrice(round?.closePrice ?? null),
+    outcome: round?.outcome ?? null,
+    result,
+    grossPayout: ethers.formatEther(payout),
+    treasuryFee: ethers.formatEther(fee),
+    netPayout: ethers.formatEther(userPayout),
+    claimed: bet.claimed,
+    claimedAt: bet.claimedAt === null ? null : toIsoString(bet.claimedAt),
+    transactionHash: bet.transactionHash,
+    claimTransactionHash: bet.claimTransactionHash,
+  };
+}
+
+function formatRoundRow(
+  { round, bullBettors, bearBettors }: RoundWithBettors,
+  coins: CoinInfo[],
+): ExportRow {
+  const totalBullAmount = BigInt(round.totalBullAmount);
+  const totalBearAmount = BigInt(round.totalBearAmount);
+  const formatPrice = (price: string | null) =>
+    price === null
+      ? null
+      : ethers.formatUnits(price, coins[round.coin].decimals);
+
+  return {
+    coin: COINS[round.coin],
+    roundId: round.roundId,
+    status: RoundStatus[round.status],
+    startTimestamp: round.startTimestamp,
+    lockTimestamp: round.lockTimestamp,
+    closeTimestamp: round.closeTimestamp,
+    lockedAt: round.lockedAt,
+    closedAt: round.closedAt,
+    lockPrice: formatPrice(round.lockPrice),
+    closePrice: formatPrice(round.closePrice),
+    totalBullAmount: ethers.formatEther(totalBullAmount),
+    totalBearAmount: ethers.formatEther(totalBearAmount),
+    totalAmount: ethers.formatEther(totalBullAmount + totalBearAmount),
+    winner: round.outcome,
+    bettors: bullBettors + bearBettors,
+    bullBettors,
+    bearBettors,
+  };
+}
+
+function toIsoString(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString();
+}
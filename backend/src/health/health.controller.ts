@@ -0,0 +1,23 @@
+import { Controller, Get, HttpStatus, Res } from '@nestjs/common';
+import { Response } from 'express';
+import { HealthService } from './health.service';
+
+@Controller('health')
+export class HealthController {
+  constructor(private readonly healthService: HealthService) {}
+
+  @Get('live')
+  getLiveness() {
+    return this.healthService.getLiveness();
+  }
+
+  // 503 when any check fails, so load balancers take the backend out
+  @Get('ready')
+  async getReadiness(@Res({ passthrough: true }) res: Response) {
+    const readiness = await this.healthService.getReadiness();
+    if (readiness.status !== 'ok') {
+      res.status(HttpStatus.SERVICE_UNAVAILABLE);
+    }
+    return readiness;
+  }
+}
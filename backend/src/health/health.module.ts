@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { OraclesModule } from '../oracles/oracles.module';
+import { WatchdogModule } from '../watchdog/watchdog.module';
+import { HealthController } from './health.controller';
+import { HealthService } from './health.service';
+
+@Module({
+  imports: [OraclesModule, WatchdogModule],
+  controllers: [HealthController],
+  providers: [HealthService],
+})
+export class HealthModule {}
@@ -0,0 +1,157 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BlockchainService } from '../blockchain/blockchain.service';
+import { EnvironmentVariables } from '../config/env.validation';
+import { OraclesService } from '../oracles/oracles.service';
+import { WatchdogService } from '../watchdog/watchdog.service';
+
+// A check that takes longer than this fails, so probes get a timely answer
+const CHECK_TIMEOUT_MS = 5000;
+
+type CheckResult = { status: 'ok' | 'error'; error?: string } & Record<
+  string,
+  unknown
+>;
+
+/**
+ * Liveness and readiness of the backend. Liveness only says the process
+ * answers; readiness checks every dependency the API needs to serve
+ * correct data.
+ */
+@Injectable()
+export class HealthService {
+  private readonly startedAt = Date.now();
+
+  constructor(
+    private readonly blockchainService: BlockchainService,
+    private readonly oraclesService: OraclesService,
+    private readonly watchdogService: WatchdogService,
+    private readonly configService: ConfigService<EnvironmentVariables, true>,
+  ) {}
+
+  getLiveness() {
+    return {
+      status: 'ok',
+      uptimeSeconds: Math.floor((Date.now() - this.startedAt) / 1000),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Runs every readiness check; status is error when any of them fails
+   */
+  async getReadiness() {
+    const [rpc, contract, abi, oracles, rounds] = await Promise.all([
+      this.run(() => this.checkRpc()),
+      this.run(() => this.checkContract()),
+      this.run(async () => this.checkAbi()),
+      this.run(() => this.checkOracles()),
+      this.run(() => this.checkRounds()),
+    ]);
+    const checks = { rpc, contract, abi, oracles, rounds };
+
+    return {
+      status: Object.values(checks).every((check) => check.status === 'ok')
+        ? 'ok'
+        : 'error',
+      timestamp: new Date().toISOString(),
+      checks,
+    };
+  }
+
+  private async checkRpc(): Promise<CheckResult> {
+    const { provider } = this.blockchainService;
+    const [network, blockNumber] = await Promise.all([
+      provider.getNetwork(),
+      provider.getBlockNumber(),
+    ]);
+    const expected = this.configService.get('CHAIN_ID', { infer: true });
+    const chainId = Number(network.chainId);
+
+    return {
+      status: expected === undefined || chainId === expected ? 'ok' : 'error',
+      ...(expected !== undefined && chainId !== expected
+        ? { error: `Expected CHAIN_ID ${expected}` }
+        : {}),
+      chainId,
+      blockNumber,
+    };
+  }
+
+  private async checkContract(): Promise<CheckResult> {
+    const { provider, contractAddress } = this.blockchainService;
+    const code = await provider.getCode(contractAddress);
+    return code === '0x'
+      ? {
+          status: 'error',
+          error: 'No bytecode at CONTRACT_ADDRESS',
+          address: contractAddress,
+        }
+      : {
+          status: 'ok',
+          address: contractAddress,
+          codeSize: (code.length - 2) / 2,
+        };
+  }
+
+  private checkAbi(): CheckResult {
+    const missing = this.blockchainService.getMissingAbiMembers();
+    return {
+      status: missing.length === 0 ? 'ok' : 'error',
+      ...(missing.length > 0
+        ? { error: `ABI is missing: ${missing.join(', ')}` }
+        : {}),
+      path: this.blockchainService.abiPath,
+    };
+  }
+
+  private async checkOracles(): Promise<CheckResult> {
+    const { coins } = await this.oraclesService.getOracles();
+    const stale = coins.filter((coin) => coin.stale).map((coin) => coin.coin);
+    return {
+      status: stale.length === 0 ? 'ok' : 'error',
+      ...(stale.length > 0 ? { error: `Stale feeds: ${stale.join(', ')}` } : {}),
+      feeds: coins.map(({ coin, ageSeconds, stale }) => ({
+        coin,
+        ageSeconds,
+        stale,
+      })),
+    };
+  }
+
+  private async checkRounds(): Promise<CheckResult> {
+    const { coins } = await this.watchdogService.getStuckRounds();
+    const stuck = coins.flatMap(({ coin, stuck }) =>
+      stuck.map(({ reason, roundId }) => `${coin} round ${roundId} ${reason}`),
+    );
+    return {
+      status: stuck.length === 0 ? 'ok' : 'error',
+      ...(stuck.length > 0
+        ? { error: `Rounds not progressing: ${stuck.join(', ')}` }
+        : {}),
+      coins: coins.map(({ coin, currentRoundId, stuck }) => ({
+        coin,
+        currentRoundId,
+        progressing: stuck.length === 0,
+      })),
+    };
+  }
+
+  private async run(check: () => Promise<CheckResult>): Promise<CheckResult> {
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Timed out after ${CHECK_TIMEOUT_MS}ms`)),
+        CHECK_TIMEOUT_MS,
+      );
+    });
+
+    try {
+      return await Promise.race([check(), timeout]);
+    } catch (error) {
+      return { status: 'error', error: error.shortMessage ?? error.message };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import { Type } from 'class-transformer';
+import { IsIn, IsInt, IsOptional, Max, Min } from 'class-validator';
+import {
+  IsEtherAmount,
+  IsRoundId,
+  IsTimestamp,
+  toLowerCase,
+} from '../../prediction/dto/prediction.dto';
+
+export const ROUND_STATUS_FILTERS = ['open', 'locked', 'closed'] as const;
+export const WINNER_FILTERS = ['bull', 'bear', 'tie'] as const;
+
+export class RoundHistoryQuery {
+  @IsOptional()
+  @toLowerCase()
+  @IsIn(ROUND_STATUS_FILTERS, {
+    message: `status must be one of ${ROUND_STATUS_FILTERS.join(', ')}`,
+  })
+  status?: (typeof ROUND_STATUS_FILTERS)[number];
+
+  @IsOptional()
+  @toLowerCase()
+  @IsIn(WINNER_FILTERS, {
+    message: `winner must be one of ${WINNER_FILTERS.join(', ')}`,
+  })
+  winner?: (typeof WINNER_FILTERS)[number];
+
+  // Smallest total pool, in ether
+  @IsOptional()
+  @IsEtherAmount('minPool')
+  minPool?: string;
+
+  // Bounds on the round start time
+  @IsOptional()
+  @IsTimestamp('from')
+  from?: number;
+
+  @IsOptional()
+  @IsTimestamp('to')
+  to?: number;
+
+  // nextCursor of the previous page
+  @IsOptional()
+  @IsRoundId('cursor')
+  cursor?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'limit must be an integer' })
+  @Min(1)
+  @Max(100)
+  limit: number = 20;
+}
@@ -0,0 +1,22 @@
+import { Controller, Get, Param, Query } from '@nestjs/common';
+import {
+  AddressParams,
+  CoinParams,
+} from '../prediction/dto/prediction.dto';
+import { RoundHistoryQuery } from './dto/history.dto';
+import { HistoryService } from './history.service';
+
+@Controller('api/prediction')
+export class HistoryController {
+  constructor(private readonly historyService: HistoryService) {}
+
+  @Get('rounds/:coin')
+  getRounds(@Param() { coin }: CoinParams, @Query() query: RoundHistoryQuery) {
+    return this.historyService.getRounds(coin, query);
+  }
+
+  @Get('users/:address/bets')
+  getUserBets(@Param() { address }: AddressParams) {
+    return this.historyService.getUserBets(address);
+  }
+}
@@ -0,0 +1,161 @@
+import { Injectable } from '@nestjs/common';
+import { ethers } from 'ethers';
+import { parseCoin } from '../blockchain/coins';
+import { RoundStatus } from '../blockchain/contract.constants';
+import {
+  getPayoutMultipliers,
+  getPriceChangePercent,
+  RoundOutcome,
+  settleBet,
+} from '../blockchain/round-math';
+import { IndexerService } from '../indexer/indexer.service';
+import { IndexerStore } from '../indexer/indexer.store';
+import { BetRecord, IndexedRound } from '../indexer/indexer.types';
+import {
+  ROUND_STATUS_FILTERS,
+  RoundHistoryQuery,
+  WINNER_FILTERS,
+} from './dto/history.dto';
+
+const STATUSES: Record<(typeof ROUND_STATUS_FILTERS)[number], RoundStatus> = {
+  open: RoundStatus.Open,
+  locked: RoundStatus.Locked,
+  closed: RoundStatus.Closed,
+};
+
+const OUTCOMES: Record<(typeof WINNER_FILTERS)[number], RoundOutcome> = {
+  bull: 'Bull',
+  bear: 'Bear',
+  tie: 'Tie',
+};
+
+/**
+ * Read-side queries over the rounds and bets stored by the indexer
+ */
+@Injectable()
+export class HistoryService {
+  constructor(
+    private readonly store: IndexerStore,
+    private readonly indexerService: IndexerService,
+  ) {}
+
+  getRounds(coin: string, query: RoundHistoryQuery) {
+    const coinEnum = parseCoin(coin);
+    const { limit } = query;
+    const minPool = query.minPool ? ethers.parseEther(query.minPool) : 0n;
+
+    const rounds = this.store.iterateRounds(coinEnum, {
+      status: query.status === undefined ? undefined : STATUSES[query.status],
+      outcome: query.winner === undefined ? undefined : OUTCOMES[query.winner],
+      from: query.from,
+      to: query.to,
+      beforeRoundId: query.cursor,
+    });
+
+    const items = [];
+    let hasMore = false;
+    for (const round of rounds) {
+      const totalAmount =
+        BigInt(round.totalBullAmount) + BigInt(round.totalBearAmount);
+      if (totalAmount < minPool) continue;
+
+      if (items.length === limit) {
+        hasMore = true;
+        break;
+      }
+      items.push(this.formatRound(round));
+    }
+
+    return {
+      items,
+      nextCursor: hasMore ? items[items.length - 1].roundId : null,
+    };
+  }
+
+  async getUserBets(address: string) {
+    const records = await this.indexerService.resolveTieClaims(
+      this.store.getBets({ user: address }),
+    );
+    const bets = records.map((record) => this.formatBet(record));
+
+    let volume = 0n;
+    let staked = 0n;
+    let returned = 0n;
+    const counts = { won: 0, lost: 0, tie: 0, pending: 0 };
+
+    for (const bet of bets) {
+      const amount = ethers.parseEther(bet.amount);
+      volume += amount;
+      counts[bet.result]++;
+      if (bet.result !== 'pending') {
+        staked += amount;
+        returned += ethers.parseEther(bet.payout);
+      }
+    }
+
+    const settled = counts.won + counts.lost + counts.tie;
+
+    return {
+      address: ethers.getAddress(address),
+      bets,
+      totals: {
+        bets: bets.length,
+        wins: counts.won,
+        losses: counts.lost,
+        ties: counts.tie,
+        pending: counts.pending,
+        winRate: settled > 0 ? counts.won / settled : null,
+        volume: ethers.formatEther(volume),
+        totalPayout: ethers.formatEther(returned),
+        netProfit: ethers.formatEther(returned - staked),
+      },
+    };
+  }
+
+  /**
+   * Bet with its settlement. Payouts are net of the treasury fee; ties pay
+   * nothing because claim() marks them claimed without a refund.
+   */
+  private formatBet({ bet, round }: BetRecord) {
+    const { result, userPayout } = settleBet({ bet, round });
+
+    return {
+      coin: bet.coin,
+      roundId: bet.roundId.toString(),
+      position: bet.position,
+      amount: ethers.formatEther(bet.amount),
+      placedAt: bet.placedAt.toString(),
+      transactionHash: bet.transactionHash,
+      result,
+      payout: ethers.formatEther(userPayout),
+      claimed: bet.claimed,
+      claimable: result === 'won' && !bet.claimed,
+      claimTransactionHash: bet.claimTransactionHash,
+    };
+  }
+
+  private formatRound(round: IndexedRound) {
+    const totalBullAmount = BigInt(round.totalBullAmount);
+    const totalBearAmount = BigInt(round.totalBearAmount);
+    const closed = round.status === RoundStatus.Closed;
+
+    return {
+      roundId: round.roundId.toString(),
+      coin: round.coin,
+      startTimestamp: round.startTimestamp.toString(),
+      lockTimestamp: round.lockTimestamp.toString(),
+      closeTimestamp: round.closeTimestamp.toString(),
+      lockPrice: round.lockPrice ?? '0',
+      closePrice: round.closePrice ?? '0',
+      totalBullAmount: ethers.formatEther(totalBullAmount),
+      totalBearAmount: ethers.formatEther(totalBearAmount),
+      totalAmount: ethers.formatEther(totalBullAmount + totalBearAmount),
+      status: round.status,
+      winner: round.outcome,
+      priceChangePercent: closed
+        ? getPriceChangePercent(BigInt(round.lockPrice), BigInt(round.closePrice))
+        : null,
+      payoutMultipliers: getPayoutMultipliers(totalBullAmount, totalBearAmount),
+    };
+  }
+}
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { IndexerService } from './indexer.service';
+import { IndexerStore } from './indexer.store';
+
+@Module({
+  providers: [IndexerStore, IndexerService],
+  exports: [IndexerStore, IndexerService],
+})
+export class IndexerModule {}
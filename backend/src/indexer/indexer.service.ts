@@ -0,0 +1,245 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ethers } from 'ethers';
+import { Observable, Subject, filter } from 'rxjs';
+import { BlockchainService } from '../blockchain/blockchain.service';
+import { toPredictionError } from '../common/errors/contract-errors';
+import { EnvironmentVariables } from '../config/env.validation';
+import { IndexerStore } from './indexer.store';
+import {
+  BetRecord,
+  ContractEvent,
+  ContractEventName,
+  IndexedEvent,
+} from './indexer.types';
+
+const INDEXED_EVENTS: ContractEventName[] = [
+  'RoundCreated',
+  'BetPlaced',
+  'RoundLocked',
+  'RoundClosed',
+  'BetClaimed',
+];
+
+/**
+ * Follows MultiCoinPredictionMarket logs from a configurable start block
+ * and persists them through IndexerStore, resuming from the last
+ * checkpointed block after a restart.
+ */
+@Injectable()
+export class IndexerService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(IndexerService.name);
+  private readonly startBlock: number;
+  private readonly batchSize: number;
+  private readonly pollInterval: number;
+  private readonly confirmations: number;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  // Chain head when indexing started
+  private liveFromBlock: number | null = null;
+
+  /**
+   * Events from batches that reached the chain head, emitted once stored.
+   * Historical backfill is not replayed here.
+   */
+  readonly events$ = new Subject<IndexedEvent>();
+
+  /**
+   * events$ limited to blocks mined since indexing started. A batch that
+   * reaches the head can still hold older blocks while the indexer catches
+   * up after downtime, which consumers reacting to new activity skip.
+   */
+  readonly liveEvents$: Observable<IndexedEvent> = this.events$.pipe(
+    filter(({ event }) => event.blockNumber >= this.liveFromBlock),
+  );
+
+  constructor(
+    private readonly blockchainService: BlockchainService,
+    private readonly store: IndexerStore,
+    private readonly configService: ConfigService<EnvironmentVariables, true>,
+  ) {
+    this.startBlock = this.configService.get('INDEXER_START_BLOCK', {
+      infer: true,
+    });
+    this.batchSize = this.configService.get('INDEXER_BATCH_SIZE', {
+      infer: true,
+    });
+    this.pollInterval = this.configService.get('INDEXER_POLL_INTERVAL_MS', {
+      infer: true,
+    });
+    this.confirmations = this.configService.get('INDEXER_CONFIRMATIONS', {
+      infer: true,
+    });
+  }
+
+  onApplicationBootstrap() {
+    if (!this.configService.get('INDEXER_ENABLED', { infer: true })) {
+      this.logger.log('Indexer disabled');
+      return;
+    }
+
+    const address = this.blockchainService.contractAddress.toLowerCase();
+    const indexed = this.store.getIndexedContract();
+    if (indexed !== address) {
+      if (indexed) {
+        this.logger.warn(
+          `Contract address changed from ${indexed} to ${address}, rebuilding index`,
+        );
+      }
+      this.store.reset(address);
+    }
+
+    this.running = true;
+    this.schedule(0);
+  }
+
+  onModuleDestroy() {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.events$.complete();
+  }
+
+  /**
+   * Last block whose events are fully stored
+   */
+  getLastIndexedBlock(): number | null {
+    return this.store.getCheckpoint();
+  }
+
+  /**
+   * Fills in the claim status of tied bets from the contract: claim()
+   * marks them claimed without emitting BetClaimed, so the index never
+   * sees it
+   */
+  async resolveTieClaims(records: BetRecord[]): Promise<BetRecord[]> {
+    const { contract } = this.blockchainService;
+    try {
+      return await Promise.all(
+        records.map(async (record) => {
+          const { bet, round } = record;
+          if (bet.claimed || round?.outcome !== 'Tie') return record;
+
+          const { claimed } = await contract.getUserBet(
+            bet.coin,
+            bet.user,
+            bet.roundId,
+          );
+          return claimed ? { ...record, bet: { ...bet, claimed } } : record;
+        }),
+      );
+    } catch (error) {
+      throw toPredictionError(error, 'Failed to get tie claims');
+    }
+  }
+
+  private schedule(delay: number) {
+    if (!this.running) return;
+    this.timer = setTimeout(() => this.tick(), delay);
+  }
+
+  private async tick() {
+    try {
+      const caughtUp = await this.syncBatch();
+      this.schedule(caughtUp ? this.pollInterval : 0);
+    } catch (error) {
+      this.logger.error(`Indexing failed: ${error.message}`);
+      this.schedule(this.pollInterval);
+    }
+  }
+
+  /**
+   * Index the next range of blocks. Returns true once the head is reached.
+   */
+  private async syncBatch(): Promise<boolean> {
+    const provider = this.blockchainService.provider;
+    const blockNumber = await provider.getBlockNumber();
+    if (this.liveFromBlock === null) this.liveFromBlock = blockNumber;
+    const head = blockNumber - this.confirmations;
+    const checkpoint = this.store.getCheckpoint();
+    const fromBlock = checkpoint === null ? this.startBlock : checkpoint + 1;
+
+    if (checkpoint !== null && checkpoint > head + this.confirmations) {
+      this.logger.warn(
+        `Chain head ${head} is behind checkpoint ${checkpoint}, was the node reset?`,
+      );
+      return true;
+    }
+
+    if (fromBlock > head) {
+      return true;
+    }
+
+    const toBlock = Math.min(fromBlock + this.batchSize - 1, head);
+    const events = await this.fetchEvents(fromBlock, toBlock);
+
+    const applied = this.store.applyEvents(events, toBlock);
+
+    if (toBlock === head) {
+      applied.forEach((indexed) => this.events$.next(indexed));
+    }
+
+    if (events.length > 0) {
+      this.logger.log(
+        `Indexed ${events.length} events from blocks ${fromBlock}-${toBlock}`,
+      );
+    }
+
+    return toBlock === head;
+  }
+
+  private async fetchEvents(
+    fromBlock: number,
+    toBlock: number,
+  ): Promise<ContractEvent[]> {
+    const contract = this.blockchainService.contract;
+    const topics = INDEXED_EVENTS.map(
+      (name) => contract.interface.getEvent(name).topicHash,
+    );
+
+    const logs = await this.blockchainService.provider.getLogs({
+      address: this.blockchainService.contractAddress,
+      topics: [topics],
+      fromBlock,
+      toBlock,
+    });
+
+    const timestamps = await this.getBlockTimestamps(
+      logs.map((log) => log.blockNumber),
+    );
+
+    return logs
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index)
+      .map((log) => {
+        const parsed = contract.interface.parseLog(log) as ethers.LogDescription;
+        return {
+          name: parsed.name as ContractEventName,
+          args: parsed.args.toObject(),
+          blockNumber: log.blockNumber,
+          blockTimestamp: timestamps.get(log.blockNumber),
+          transactionHash: log.transactionHash,
+          logIndex: log.index,
+        };
+      });
+  }
+
+  private async getBlockTimestamps(
+    blockNumbers: number[],
+  ): Promise<Map<number, number>> {
+    const timestamps = new Map<number, number>();
+
+    for (const blockNumber of new Set(blockNumbers)) {
+      const block = await this.blockchainService.provider.getBlock(blockNumber);
+      timestamps.set(blockNumber, block.timestamp);
+    }
+
+    return timestamps;
+  }
+}
@@ -0,0 +1,418 @@
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as Database from 'better-sqlite3';
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  CLOSE_DELAY,
+  ROUND_DURATION,
+  RoundStatus,
+} from '../blockchain/contract.constants';
+import { getRoundOutcome } from '../blockchain/round-math';
+import { EnvironmentVariables } from '../config/env.validation';
+import {
+  BetQuery,
+  BetRecord,
+  ContractEvent,
+  IndexedBet,
+  IndexedEvent,
+  IndexedRound,
+  RoundQuery,
+  RoundWithBettors,
+} from './indexer.types';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS rounds (
+    coin INTEGER NOT NULL,
+    round_id INTEGER NOT NULL,
+    start_timestamp INTEGER NOT NULL,
+    lock_timestamp INTEGER NOT NULL,
+    close_timestamp INTEGER NOT NULL,
+    lock_price TEXT,
+    close_price TEXT,
+    total_bull_amount TEXT NOT NULL DEFAULT '0',
+    total_bear_amount TEXT NOT NULL DEFAULT '0',
+    status INTEGER NOT NULL DEFAULT 0,
+    outcome TEXT,
+    locked_at INTEGER,
+    closed_at INTEGER,
+    PRIMARY KEY (coin, round_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS bets (
+    coin INTEGER NOT NULL,
+    round_id INTEGER NOT NULL,
+    user TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    amount TEXT NOT NULL,
+    placed_at INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    claimed INTEGER NOT NULL DEFAULT 0,
+    claimed_amount TEXT,
+    claimed_at INTEGER,
+    claim_transaction_hash TEXT,
+    PRIMARY KEY (coin, round_id, user)
+  );
+
+  CREATE INDEX IF NOT EXISTS bets_by_user ON bets (user);
+`;
+
+/**
+ * SQLite-backed storage for indexed contract events.
+ * Every batch of events is written in a single transaction together with
+ * the block checkpoint, so a restart never applies the same log twice.
+ */
+@Injectable()
+export class IndexerStore implements OnModuleDestroy {
+  private db: Database.Database;
+
+  constructor(
+    private readonly configService: ConfigService<EnvironmentVariables, true>,
+  ) {
+    const dbPath = this.configService.get('INDEXER_DB_PATH', { infer: true });
+
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+  }
+
+  onModuleDestroy() {
+    this.db.close();
+  }
+
+  getCheckpoint(): number | null {
+    const value = this.getMeta('lastBlock');
+    return value === null ? null : Number(value);
+  }
+
+  getIndexedContract(): string | null {
+    return this.getMeta('contractAddress');
+  }
+
+  /**
+   * Rounds of a coin matching the query, newest first
+   */
+  *iterateRounds(coin: number, query: RoundQuery = {}): Generator<IndexedRound> {
+    const conditions = ['coin = @coin'];
+    if (query.status !== undefined) conditions.push('status = @status');
+    if (query.outcome !== undefined) conditions.push('outcome = @outcome');
+    if (query.from !== undefined) conditions.push('start_timestamp >= @from');
+    if (query.to !== undefined) conditions.push('start_timestamp <= @to');
+    if (query.beforeRoundId !== undefined) conditions.push('round_id < @beforeRoundId');
+
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM rounds WHERE ${conditions.join(' AND ')} ORDER BY round_id DESC`,
+      )
+      .iterate({ coin, ...query });
+
+    for (const row of rows) {
+      yield this.toRound(row);
+    }
+  }
+
+  /**
+   * Rounds of a coin with fromRoundId <= roundId <= toRoundId, oldest
+   * first, with the number of bettors on each side
+   */
+  getRoundRange(
+    coin: number,
+    fromRoundId: number,
+    toRoundId: number,
+  ): RoundWithBettors[] {
+    const rows = this.db
+      .prepare(
+        `SELECT rounds.*,
+           COUNT(bets.user) AS bettors,
+           COALESCE(SUM(bets.position = 0), 0) AS bull_bettors
+         FROM rounds
+         LEFT JOIN bets
+           ON bets.coin = rounds.coin AND bets.round_id = rounds.round_id
+         WHERE rounds.coin = ? AND rounds.round_id BETWEEN ? AND ?
+         GROUP BY rounds.coin, rounds.round_id
+         ORDER BY rounds.round_id`,
+      )
+      .all(coin, fromRoundId, toRoundId) as any[];
+
+    return rows.map((row) => ({
+      round: this.toRound(row),
+      bullBettors: row.bull_bettors,
+      bearBettors: row.bettors - row.bull_bettors,
+    }));
+  }
+
+  /**
+   * Bets matching the query, with their rounds, newest first unless
+   * query.order is 'asc'
+   */
+  getBets(query: BetQuery = {}): BetRecord[] {
+    const conditions = ['1 = 1'];
+    if (query.coin !== undefined) conditions.push('bets.coin = @coin');
+    if (query.roundId !== undefined) conditions.push('bets.round_id = @roundId');
+    if (query.user !== undefined) conditions.push('bets.user = @user');
+    if (query.from !== undefined) conditions.push('bets.placed_at >= @from');
+    if (query.to !== undefined) conditions.push('bets.placed_at <= @to');
+    const direction = query.order === 'asc' ? 'ASC' : 'DESC';
+
+    // bets and rounds share no column names besides the join keys, so one
+    // row holds both
+    const rows = this.db
+      .prepare(
+        `SELECT bets.*,
+           rounds.start_timestamp, rounds.lock_timestamp, rounds.close_timestamp,
+           rounds.lock_price, rounds.close_price,
+           rounds.total_bull_amount, rounds.total_bear_amount,
+           rounds.status, rounds.outcome, rounds.locked_at, rounds.closed_at
+         FROM bets
+         LEFT JOIN rounds
+           ON rounds.coin = bets.coin AND rounds.round_id = bets.round_id
+         WHERE ${conditions.join(' AND ')}
+         ORDER BY bets.placed_at ${direction}, bets.coin, bets.round_id ${direction}`,
+      )
+      .all({ ...query, user: query.user?.toLowerCase() }) as any[];
+
+    return rows.map((row) => ({
+      bet: this.toBet(row),
+      round: row.start_timestamp === null ? null : this.toRound(row),
+    }));
+  }
+
+  getRound(coin: number, roundId: number): IndexedRound | null {
+    const row = this.db
+      .prepare('SELECT * FROM rounds WHERE coin = ? AND round_id = ?')
+      .get(coin, roundId);
+    return row ? this.toRound(row) : null;
+  }
+
+  /**
+   * Drop all indexed data and bind the store to a new contract address
+   */
+  reset(contractAddress: string) {
+    this.db.transaction(() => {
+      this.db.exec('DELETE FROM bets; DELETE FROM rounds; DELETE FROM meta;');
+      this.setMeta('contractAddress', contractAddress.toLowerCase());
+    })();
+  }
+
+  /**
+   * Apply events (in log order) and advance the checkpoint to toBlock.
+   * Returns each event with the state of its round once the whole batch
+   * is applied.
+   */
+  applyEvents(events: ContractEvent[], toBlock: number): IndexedEvent[] {
+    return this.db.transaction(() => {
+      events.forEach((event) => this.applyEvent(event));
+      this.setMeta('lastBlock', toBlock.toString());
+
+      const rounds = this.getRoundsOf(events);
+      return events.map((event) => ({
+        event,
+        round:
+          rounds.get(`${event.args.coin}:${event.args.roundId}`) ?? null,
+      }));
+    })();
+  }
+
+  /**
+   * Rounds the events refer to, keyed by `${coin}:${roundId}`. Loaded with
+   * one range query per coin.
+   */
+  private getRoundsOf(events: ContractEvent[]): Map<string, IndexedRound> {
+    const ranges = new Map<number, { from: number; to: number }>();
+    for (const { args } of events) {
+      const coin = Number(args.coin);
+      const roundId = Number(args.roundId);
+      const range = ranges.get(coin);
+      ranges.set(coin, {
+        from: Math.min(range?.from ?? roundId, roundId),
+        to: Math.max(range?.to ?? roundId, roundId),
+      });
+    }
+
+    const rounds = new Map<string, IndexedRound>();
+    const statement = this.db.prepare(
+      'SELECT * FROM rounds WHERE coin = ? AND round_id BETWEEN ? AND ?',
+    );
+    for (const [coin, { from, to }] of ranges) {
+      for (const row of statement.all(coin, from, to)) {
+        const round = this.toRound(row);
+        rounds.set(`${round.coin}:${round.roundId}`, round);
+      }
+    }
+    return rounds;
+  }
+
+  private applyEvent(event: ContractEvent) {
+    const { args } = event;
+    const coin = Number(args.coin);
+    const roundId = Number(args.roundId);
+
+    switch (event.name) {
+      case 'RoundCreated': {
+        const startTimestamp = Number(args.startTimestamp);
+        this.db
+          .prepare(
+            `INSERT OR IGNORE INTO rounds
+              (coin, round_id, start_timestamp, lock_timestamp, close_timestamp)
+             VALUES (?, ?, ?, ?, ?)`,
+          )
+          .run(
+            coin,
+            roundId,
+            startTimestamp,
+            startTimestamp + ROUND_DURATION,
+            startTimestamp + ROUND_DURATION + CLOSE_DELAY,
+          );
+        break;
+      }
+
+      case 'BetPlaced': {
+        const amount = BigInt(args.amount);
+        const column =
+          Number(args.position) === 0 ? 'total_bull_amount' : 'total_bear_amount';
+        const round = this.db
+          .prepare(`SELECT ${column} AS total FROM rounds WHERE coin = ? AND round_id = ?`)
+          .get(coin, roundId) as { total: string } | undefined;
+
+        if (round) {
+          this.db
+            .prepare(`UPDATE rounds SET ${column} = ? WHERE coin = ? AND round_id = ?`)
+            .run((BigInt(round.total) + amount).toString(), coin, roundId);
+        }
+
+        this.db
+          .prepare(
+            `INSERT OR IGNORE INTO bets
+              (coin, round_id, user, position, amount, placed_at, transaction_hash)
+             VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          )
+          .run(
+            coin,
+            roundId,
+            String(args.user).toLowerCase(),
+            Number(args.position),
+            amount.toString(),
+            event.blockTimestamp,
+            event.transactionHash,
+          );
+        break;
+      }
+
+      case 'RoundLocked':
+        this.db
+          .prepare(
+            `UPDATE rounds SET lock_price = ?, status = ?, locked_at = ?
+             WHERE coin = ? AND round_id = ?`,
+          )
+          .run(
+            args.lockPrice.toString(),
+            RoundStatus.Locked,
+            event.blockTimestamp,
+            coin,
+            roundId,
+          );
+        break;
+
+      case 'RoundClosed': {
+        const round = this.db
+          .prepare('SELECT lock_price FROM rounds WHERE coin = ? AND round_id = ?')
+          .get(coin, roundId) as { lock_price: string | null } | undefined;
+        const outcome =
+          round?.lock_price != null
+            ? getRoundOutcome(BigInt(round.lock_price), BigInt(args.closePrice))
+            : null;
+
+        this.db
+          .prepare(
+            `UPDATE rounds SET close_price = ?, status = ?, outcome = ?, closed_at = ?
+             WHERE coin = ? AND round_id = ?`,
+          )
+          .run(
+            args.closePrice.toString(),
+            RoundStatus.Closed,
+            outcome,
+            event.blockTimestamp,
+            coin,
+            roundId,
+          );
+        break;
+      }
+
+      // Tie refunds mark the bet claimed without emitting BetClaimed, so
+      // those bets stay unclaimed here (see IndexerService.resolveTieClaims)
+      case 'BetClaimed':
+        this.db
+          .prepare(
+            `UPDATE bets
+             SET claimed = 1, claimed_amount = ?, claimed_at = ?, claim_transaction_hash = ?
+             WHERE coin = ? AND round_id = ? AND user = ?`,
+          )
+          .run(
+            args.amount.toString(),
+            event.blockTimestamp,
+            event.transactionHash,
+            coin,
+            roundId,
+            String(args.user).toLowerCase(),
+          );
+        break;
+    }
+  }
+
+  private toBet(row: any): IndexedBet {
+    return {
+      coin: row.coin,
+      roundId: row.round_id,
+      user: ethers.getAddress(row.user),
+      position: row.position,
+      amount: row.amount,
+      placedAt: row.placed_at,
+      transactionHash: row.transaction_hash,
+      claimed: row.claimed === 1,
+      claimedAmount: row.claimed_amount,
+      claimedAt: row.claimed_at,
+      claimTransactionHash: row.claim_transaction_hash,
+    };
+  }
+
+  private toRound(row: any): IndexedRound {
+    return {
+      coin: row.coin,
+      roundId: row.round_id,
+      startTimestamp: row.start_timestamp,
+      lockTimestamp: row.lock_timestamp,
+      closeTimestamp: row.close_timestamp,
+      lockPrice: row.lock_price,
+      closePrice: row.close_price,
+      totalBullAmount: row.total_bull_amount,
+      totalBearAmount: row.total_bear_amount,
+      status: row.status,
+      outcome: row.outcome,
+      lockedAt: row.locked_at,
+      closedAt: row.closed_at,
+    };
+  }
+
+  private getMeta(key: string): string | null {
+    const row = this.db
+      .prepare('SELECT value FROM meta WHERE key = ?')
+      .get(key) as { value: string } | undefined;
+    return row ? row.value : null;
+  }
+
+  private setMeta(key: string, value: string) {
+    this.db
+      .prepare(
+        'INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value',
+      )
+      .run(key, value);
+  }
+}
@@ -0,0 +1,87 @@
+import { Position, RoundStatus } from '../blockchain/contract.constants';
+import { RoundOutcome } from '../blockchain/round-math';
+
+export type ContractEventName =
+  | 'RoundCreated'
+  | 'BetPlaced'
+  | 'RoundLocked'
+  | 'RoundClosed'
+  | 'BetClaimed';
+
+export interface ContractEvent {
+  name: ContractEventName;
+  args: Record<string, any>;
+  blockNumber: number;
+  blockTimestamp: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+// Amounts and prices are kept as decimal strings of the raw on-chain values
+export interface IndexedRound {
+  coin: number;
+  roundId: number;
+  startTimestamp: number;
+  lockTimestamp: number;
+  closeTimestamp: number;
+  lockPrice: string | null;
+  closePrice: string | null;
+  totalBullAmount: string;
+  totalBearAmount: string;
+  status: RoundStatus;
+  outcome: RoundOutcome | null;
+  lockedAt: number | null;
+  closedAt: number | null;
+}
+
+export interface IndexedBet {
+  coin: number;
+  roundId: number;
+  user: string;
+  position: Position;
+  amount: string;
+  placedAt: number;
+  transactionHash: string;
+  claimed: boolean;
+  claimedAmount: string | null;
+  claimedAt: number | null;
+  claimTransactionHash: string | null;
+}
+
+export interface RoundQuery {
+  status?: RoundStatus;
+  outcome?: RoundOutcome;
+  // Bounds on startTimestamp, in unix seconds
+  from?: number;
+  to?: number;
+  // Only rounds with a lower roundId (cursor pagination)
+  beforeRoundId?: number;
+}
+
+export interface RoundWithBettors {
+  round: IndexedRound;
+  bullBettors: number;
+  bearBettors: number;
+}
+
+export interface BetRecord {
+  bet: IndexedBet;
+  round: IndexedRound | null;
+}
+
+export interface BetQuery {
+  coin?: number;
+  roundId?: number;
+  user?: string;
+  // Bounds on the block timestamp the bet was placed at, in unix seconds
+  from?: number;
+  to?: number;
+  // Newest first unless 'asc'
+  order?: 'asc' | 'desc';
+}
+
+// A stored event together with the state of its round after its batch
+export interface IndexedEvent {
+  event: ContractEvent;
+  round: IndexedRound | null;
+}
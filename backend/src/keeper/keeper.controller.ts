@@ -0,0 +1,12 @@
+import { Controller, Get } from '@nestjs/common';
+import { KeeperService } from './keeper.service';
+
+@Controller('api/prediction')
+export class KeeperController {
+  constructor(private readonly keeperService: KeeperService) {}
+
+  @Get('keeper/status')
+  getStatus() {
+    return this.keeperService.getStatus();
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { KeeperController } from './keeper.controller';
+import { KeeperService } from './keeper.service';
+
+@Module({
+  controllers: [KeeperController],
+  providers: [KeeperService],
+  exports: [KeeperService],
+})
+export class KeeperModule {}
@@ -0,0 +1,286 @@
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { ethers } from 'ethers';
+import { BlockchainService } from '../blockchain/blockchain.service';
+import {
+  CLOSE_DELAY,
+  ROUND_DURATION,
+  RoundStatus,
+} from '../blockchain/contract.constants';
+import { EnvironmentVariables } from '../config/env.validation';
+import { KeeperService } from './keeper.service';
+
+interface FakeRound {
+  roundId: bigint;
+  status: RoundStatus;
+  lockTimestamp: bigint;
+  closeTimestamp: bigint;
+  oracleCalled: boolean;
+}
+
+const INTERVAL_MS = 5000;
+
+// Hardhat's first default account
+const KEEPER_PRIVATE_KEY =
+  '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+// Coins other than the first sit on an open round that never locks
+const IDLE_ROUND: FakeRound = {
+  roundId: 1n,
+  status: RoundStatus.Open,
+  lockTimestamp: 2n ** 40n,
+  closeTimestamp: 2n ** 40n,
+  oracleCalled: false,
+};
+
+/**
+ * Minimal stand-in for the market contract: keeps the rounds of the first
+ * coin and applies lockRound / closeRound / createNextRound the way the
+ * contract does, recording every call made.
+ */
+function createFakeContract(rounds: FakeRound[]) {
+  const byId = new Map(rounds.map((round) => [round.roundId, round]));
+  let currentRound = rounds[rounds.length - 1].roundId;
+  const calls: string[] = [];
+
+  const openRound = (roundId: bigint, startedAt: bigint) => {
+    byId.set(roundId, {
+      roundId,
+      status: RoundStatus.Open,
+      lockTimestamp: startedAt + BigInt(ROUND_DURATION),
+      closeTimestamp: startedAt + BigInt(ROUND_DURATION + CLOSE_DELAY),
+      oracleCalled: false,
+    });
+  };
+  const transaction = async () => ({
+    hash: '0xhash',
+    wait: async () => ({ status: 1 }),
+  });
+
+  return {
+    calls,
+    rounds: byId,
+    currentRound: jest.fn(async (coin: number) =>
+      coin === 0 ? currentRound : IDLE_ROUND.roundId,
+    ),
+    getRound: jest.fn(async (coin: number, roundId: bigint) => {
+      if (coin !== 0) return IDLE_ROUND;
+      return (
+        byId.get(roundId) ?? {
+          roundId: 0n,
+          status: RoundStatus.Open,
+          lockTimestamp: 0n,
+          closeTimestamp: 0n,
+          oracleCalled: false,
+        }
+      );
+    }),
+    lockRound: jest.fn(async (_coin: number, roundId: bigint) => {
+      calls.push(`lockRound ${roundId}`);
+      const round = byId.get(roundId);
+      round.status = RoundStatus.Locked;
+      currentRound = roundId + 1n;
+      openRound(currentRound, round.lockTimestamp);
+      return transaction();
+    }),
+    closeRound: jest.fn(async (_coin: number, roundId: bigint) => {
+      calls.push(`closeRound ${roundId}`);
+      const round = byId.get(roundId);
+      round.status = RoundStatus.Closed;
+      round.oracleCalled = true;
+      return transaction();
+    }),
+    createNextRound: jest.fn(async () => {
+      calls.push(`createNextRound ${currentRound + 1n}`);
+      currentRound++;
+      return transaction();
+    }),
+  };
+}
+
+function round(
+  roundId: bigint,
+  status: RoundStatus,
+  startedAt: number,
+): FakeRound {
+  return {
+    roundId,
+    status,
+    lockTimestamp: BigInt(startedAt + ROUND_DURATION),
+    closeTimestamp: BigInt(startedAt + ROUND_DURATION + CLOSE_DELAY),
+    oracleCalled: status === RoundStatus.Closed,
+  };
+}
+
+/**
+ * Starts a keeper on the fake contract under fake timers. `tick(now)` lets
+ * one keeper interval pass, ending at `now` on the wall clock with the
+ * latest block mined at `blockTimestamp`.
+ */
+async function startKeeper(contract: ReturnType<typeof createFakeContract>) {
+  const config: Partial<EnvironmentVariables> = {
+    KEEPER_PRIVATE_KEY,
+    KEEPER_INTERVAL_MS: INTERVAL_MS,
+    KEEPER_BACKOFF_BASE_MS: 1000,
+    KEEPER_BACKOFF_MAX_MS: 60000,
+    KEEPER_TX_TIMEOUT_MS: 60000,
+  };
+  const configService: Partial<ConfigService<EnvironmentVariables, true>> = {
+    get: jest.fn((key: keyof EnvironmentVariables) => config[key]),
+  };
+  const clock = { blockTimestamp: 0 };
+  const provider: Partial<ethers.JsonRpcProvider> = {
+    getBlock: jest.fn(
+      async () => ({ timestamp: clock.blockTimestamp }) as ethers.Block,
+    ),
+  };
+  const market: Partial<ethers.BaseContract> = {
+    connect: jest.fn().mockReturnValue(contract),
+  };
+  const blockchainService: Partial<BlockchainService> = {
+    provider: provider as ethers.JsonRpcProvider,
+    contract: market as ethers.Contract,
+  };
+
+  const moduleRef = await Test.createTestingModule({
+    providers: [
+      KeeperService,
+      { provide: ConfigService, useValue: configService },
+      { provide: BlockchainService, useValue: blockchainService },
+    ],
+  }).compile();
+  moduleRef.useLogger(false);
+  await moduleRef.init();
+
+  return {
+    service: moduleRef.get(KeeperService),
+    async tick(now: number, blockTimestamp = now) {
+      jest.setSystemTime(now * 1000 - INTERVAL_MS);
+      clock.blockTimestamp = blockTimestamp;
+      await jest.advanceTimersByTimeAsync(INTERVAL_MS);
+    },
+    stop: () => moduleRef.close(),
+  };
+}
+
+describe('KeeperService', () => {
+  let keeper: Awaited<ReturnType<typeof startKeeper>> | null = null;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(async () => {
+    await keeper?.stop();
+    keeper = null;
+    jest.useRealTimers();
+  });
+
+  it('closes the previous round before locking the current one', async () => {
+    const contract = createFakeContract([
+      round(1n, RoundStatus.Closed, 0),
+      round(2n, RoundStatus.Locked, 300),
+      round(3n, RoundStatus.Open, 600),
+    ]);
+    keeper = await startKeeper(contract);
+
+    const now = 600 + ROUND_DURATION + CLOSE_DELAY;
+    await keeper.tick(now);
+    await keeper.tick(now);
+
+    expect(contract.calls).toEqual(['closeRound 2', 'lockRound 3']);
+  });
+
+  it('locks the current round while the previous one is not due to close', async () => {
+    const contract = createFakeContract([
+      round(1n, RoundStatus.Closed, 0),
+      round(2n, RoundStatus.Locked, 300),
+      round(3n, RoundStatus.Open, 600),
+    ]);
+    keeper = await startKeeper(contract);
+
+    // Round 2 closes at 660, round 3 locks at 900
+    await keeper.tick(650);
+    expect(contract.calls).toEqual([]);
+
+    contract.rounds.get(2n).closeTimestamp = 1000n;
+    await keeper.tick(900);
+    expect(contract.calls).toEqual(['lockRound 3']);
+  });
+
+  it('keeps going on an idle chain whose last block is behind the clock', async () => {
+    // Automine only mines on transactions, so the latest block keeps the
+    // timestamp of the last one until the keeper sends the next
+    const contract = createFakeContract([
+      round(1n, RoundStatus.Closed, 0),
+      round(2n, RoundStatus.Open, 300),
+    ]);
+    keeper = await startKeeper(contract);
+
+    await keeper.tick(600, 310);
+
+    expect(contract.calls).toEqual(['lockRound 2']);
+  });
+
+  it('catches up on every locked round after a restart, oldest first', async () => {
+    // The keeper went down after round 2 was closed; other callers kept
+    // locking rounds, so rounds 3 to 5 were left locked
+    const contract = createFakeContract([
+      round(1n, RoundStatus.Closed, 0),
+      round(2n, RoundStatus.Closed, 300),
+      round(3n, RoundStatus.Locked, 600),
+      round(4n, RoundStatus.Locked, 900),
+      round(5n, RoundStatus.Locked, 1200),
+      round(6n, RoundStatus.Open, 1500),
+    ]);
+    keeper = await startKeeper(contract);
+
+    for (let tick = 0; tick < 4; tick++) {
+      await keeper.tick(5000);
+    }
+
+    expect(contract.calls).toEqual([
+      'closeRound 3',
+      'closeRound 4',
+      'closeRound 5',
+      'lockRound 6',
+    ]);
+    for (const id of [3n, 4n, 5n]) {
+      expect(contract.rounds.get(id).status).toBe(RoundStatus.Closed);
+    }
+  });
+
+  it('stops scanning back at the last closed round', async () => {
+    const contract = createFakeContract([
+      round(1n, RoundStatus.Locked, 0),
+      round(2n, RoundStatus.Closed, 300),
+      round(3n, RoundStatus.Locked, 600),
+      round(4n, RoundStatus.Open, 900),
+    ]);
+    keeper = await startKeeper(contract);
+
+    await keeper.tick(5000);
+
+    expect(contract.calls).toEqual(['closeRound 3']);
+    const scanned = contract.getRound.mock.calls
+      .filter(([coin]) => coin === 0)
+      .map(([, id]) => id);
+    expect(scanned).not.toContain(1n);
+  });
+
+  it('creates the next round once the current one is closed', async () => {
+    const contract = createFakeContract([
+      round(1n, RoundStatus.Closed, 0),
+      round(2n, RoundStatus.Closed, 300),
+    ]);
+    keeper = await startKeeper(contract);
+
+    await keeper.tick(5000);
+
+    expect(contract.calls).toEqual(['createNextRound 3']);
+    expect(keeper.service.getStatus().coins[0]).toMatchObject({
+      currentRoundId: '2',
+      lastAction: { type: 'createNextRound', roundId: '3', success: true },
+    });
+  });
+});
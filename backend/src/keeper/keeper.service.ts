@@ -0,0 +1,250 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ethers } from 'ethers';
+import { BlockchainService } from '../blockchain/blockchain.service';
+import { COINS, RoundStatus } from '../blockchain/contract.constants';
+import { getUnclosedRounds } from '../blockchain/round-scan';
+import { EnvironmentVariables } from '../config/env.validation';
+
+type KeeperActionType = 'lockRound' | 'closeRound' | 'createNextRound';
+
+export interface KeeperAction {
+  type: KeeperActionType;
+  roundId: string;
+  at: string;
+  success: boolean;
+  transactionHash: string | null;
+  error: string | null;
+}
+
+export interface CoinKeeperStatus {
+  coin: string;
+  currentRoundId: string | null;
+  lagSeconds: number;
+  lastAction: KeeperAction | null;
+  consecutiveFailures: number;
+  totalFailures: number;
+  nextAttemptAt: string | null;
+}
+
+/**
+ * Keeps rounds moving for every coin: locks rounds once lockTimestamp
+ * passes, closes locked rounds after closeTimestamp and creates the next
+ * round when a coin has none open. Failed transactions are retried with
+ * exponential backoff per coin.
+ */
+@Injectable()
+export class KeeperService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(KeeperService.name);
+  private readonly interval: number;
+  private readonly baseBackoff: number;
+  private readonly maxBackoff: number;
+  private readonly txTimeout: number;
+  private readonly status: CoinKeeperStatus[];
+  private readonly retryAt = new Map<number, number>();
+  private signer: ethers.NonceManager | null = null;
+  private contract: ethers.Contract | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly blockchainService: BlockchainService,
+    private readonly configService: ConfigService<EnvironmentVariables, true>,
+  ) {
+    this.interval = this.configService.get('KEEPER_INTERVAL_MS', {
+      infer: true,
+    });
+    this.baseBackoff = this.configService.get('KEEPER_BACKOFF_BASE_MS', {
+      infer: true,
+    });
+    this.maxBackoff = this.configService.get('KEEPER_BACKOFF_MAX_MS', {
+      infer: true,
+    });
+    this.txTimeout = this.configService.get('KEEPER_TX_TIMEOUT_MS', {
+      infer: true,
+    });
+    this.status = COINS.map((coin) => ({
+      coin,
+      currentRoundId: null,
+      lagSeconds: 0,
+      lastAction: null,
+      consecutiveFailures: 0,
+      totalFailures: 0,
+      nextAttemptAt: null,
+    }));
+  }
+
+  onApplicationBootstrap() {
+    const privateKey = this.configService.get('KEEPER_PRIVATE_KEY', {
+      infer: true,
+    });
+    if (!privateKey) {
+      this.logger.log('KEEPER_PRIVATE_KEY not set, keeper disabled');
+      return;
+    }
+
+    const wallet = new ethers.Wallet(
+      privateKey,
+      this.blockchainService.provider,
+    );
+    this.signer = new ethers.NonceManager(wallet);
+    this.contract = this.blockchainService.contract.connect(
+      this.signer,
+    ) as ethers.Contract;
+
+    this.logger.log(`Keeper running as ${wallet.address}`);
+    this.running = true;
+    this.schedule();
+  }
+
+  onModuleDestroy() {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getStatus() {
+    return {
+      enabled: this.running,
+      intervalMs: this.interval,
+      coins: this.status,
+    };
+  }
+
+  private schedule() {
+    if (!this.running) return;
+    this.timer = setTimeout(async () => {
+      await this.tick();
+      this.schedule();
+    }, this.interval);
+  }
+
+  private async tick() {
+    let now: number;
+    try {
+      const block = await this.blockchainService.provider.getBlock('latest');
+      // The transaction lands in a block mined no earlier than now, and an
+      // idle automine chain keeps the last block's timestamp until then
+      now = Math.max(block.timestamp, Math.floor(Date.now() / 1000));
+    } catch (error) {
+      this.logger.warn(`Could not read latest block: ${error.message}`);
+      return;
+    }
+
+    // Coins are processed one after another so transactions from the
+    // shared signer are sent in nonce order
+    for (let coinEnum = 0; coinEnum < COINS.length; coinEnum++) {
+      if ((this.retryAt.get(coinEnum) ?? 0) > Date.now()) continue;
+
+      try {
+        await this.upkeepCoin(coinEnum, now);
+      } catch (error) {
+        this.logger.error(
+          `${COINS[coinEnum]} upkeep failed: ${error.message}`,
+        );
+      }
+    }
+  }
+
+  private async upkeepCoin(coinEnum: number, now: number) {
+    const status = this.status[coinEnum];
+    const roundId: bigint = await this.contract.currentRound(coinEnum);
+    const round = await this.contract.getRound(coinEnum, roundId);
+
+    status.currentRoundId = roundId.toString();
+    status.lagSeconds =
+      Number(round.status) === RoundStatus.Open
+        ? Math.max(0, now - Number(round.lockTimestamp))
+        : 0;
+
+    // Rounds left locked while the keeper was down are closed before the
+    // current round is locked, oldest first
+    const overdue = (
+      await getUnclosedRounds(roundId, async (id) =>
+        id === roundId ? round : this.contract.getRound(coinEnum, id),
+      )
+    ).find(({ round }) => now >= Number(round.closeTimestamp));
+    if (overdue) {
+      await this.execute(coinEnum, 'closeRound', overdue.roundId);
+      return;
+    }
+
+    if (
+      Number(round.status) === RoundStatus.Open &&
+      now >= Number(round.lockTimestamp)
+    ) {
+      await this.execute(coinEnum, 'lockRound', roundId);
+      return;
+    }
+
+    if (
+      Number(round.status) === RoundStatus.Closed &&
+      (await this.contract.getRound(coinEnum, roundId + 1n)).roundId === 0n
+    ) {
+      await this.execute(coinEnum, 'createNextRound', roundId + 1n);
+    }
+  }
+
+  private async execute(
+    coinEnum: number,
+    type: KeeperActionType,
+    roundId: bigint,
+  ) {
+    const status = this.status[coinEnum];
+    const action: KeeperAction = {
+      type,
+      roundId: roundId.toString(),
+      at: new Date().toISOString(),
+      success: false,
+      transactionHash: null,
+      error: null,
+    };
+    status.lastAction = action;
+
+    try {
+      const args =
+        type === 'createNextRound' ? [coinEnum] : [coinEnum, roundId];
+      const tx: ethers.TransactionResponse = await this.contract[type](...args);
+      action.transactionHash = tx.hash;
+
+      const receipt = await tx.wait(1, this.txTimeout);
+      if (receipt.status !== 1) {
+        throw new Error('Transaction reverted');
+      }
+
+      action.success = true;
+      status.consecutiveFailures = 0;
+      status.nextAttemptAt = null;
+      this.retryAt.delete(coinEnum);
+      this.logger.log(
+        `${type} ${COINS[coinEnum]} round ${roundId} (${tx.hash})`,
+      );
+    } catch (error) {
+      // NonceManager counts the nonce before the transaction is populated,
+      // so any failure may leave it ahead of the chain
+      this.signer.reset();
+
+      action.error = error.shortMessage ?? error.message;
+      status.consecutiveFailures++;
+      status.totalFailures++;
+
+      const delay = Math.min(
+        this.baseBackoff * 2 ** (status.consecutiveFailures - 1),
+        this.maxBackoff,
+      );
+      this.retryAt.set(coinEnum, Date.now() + delay);
+      status.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+
+      this.logger.warn(
+        `${type} ${COINS[coinEnum]} round ${roundId} failed (${action.error}), retrying in ${delay}ms`,
+      );
+    }
+  }
+}
@@ -0,0 +1,46 @@
+import { Type } from 'class-transformer';
+import { IsIn, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { COINS } from '../../blockchain/contract.constants';
+import { toUpperCase } from '../../prediction/dto/prediction.dto';
+
+export const LEADERBOARD_WINDOWS = ['24h', '7d', 'all'] as const;
+
+export type LeaderboardWindow = (typeof LEADERBOARD_WINDOWS)[number];
+
+export const SORT_KEYS = ['netProfit', 'winRate', 'volume', 'winStreak'] as const;
+
+export type SortKey = (typeof SORT_KEYS)[number];
+
+export class LeaderboardQuery {
+  // ALL ranks bets of every coin together
+  @IsOptional()
+  @toUpperCase()
+  @IsIn([...COINS, 'ALL'], {
+    message: `coin must be one of ${COINS.join(', ')}, all`,
+  })
+  coin: string = 'ALL';
+
+  @IsOptional()
+  @IsIn(LEADERBOARD_WINDOWS, {
+    message: `window must be one of ${LEADERBOARD_WINDOWS.join(', ')}`,
+  })
+  window: LeaderboardWindow = 'all';
+
+  @IsOptional()
+  @IsIn(SORT_KEYS, { message: `sortBy must be one of ${SORT_KEYS.join(', ')}` })
+  sortBy: SortKey = 'netProfit';
+
+  // Settled bets needed to be ranked by winRate
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'minRounds must be an integer' })
+  @Min(0)
+  minRounds: number = 5;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'limit must be an integer' })
+  @Min(1)
+  @Max(100)
+  limit: number = 20;
+}
@@ -0,0 +1,13 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { LeaderboardQuery } from './dto/leaderboard.dto';
+import { LeaderboardService } from './leaderboard.service';
+
+@Controller('api/prediction')
+export class LeaderboardController {
+  constructor(private readonly leaderboardService: LeaderboardService) {}
+
+  @Get('leaderboard')
+  getLeaderboard(@Query() query: LeaderboardQuery) {
+    return this.leaderboardService.getLeaderboard(query);
+  }
+}
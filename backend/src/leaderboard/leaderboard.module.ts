@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { IndexerModule } from '../indexer/indexer.module';
+import { LeaderboardController } from './leaderboard.controller';
+import { LeaderboardService } from './leaderboard.service';
+
+@Module({
+  imports: [IndexerModule],
+  controllers: [LeaderboardController],
+  providers: [LeaderboardService],
+})
+export class LeaderboardModule {}
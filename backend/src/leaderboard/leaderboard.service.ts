@@ -0,0 +1,144 @@
+import { Injectable } from '@nestjs/common';
+import { ethers } from 'ethers';
+import { parseCoin } from '../blockchain/coins';
+import { COINS } from '../blockchain/contract.constants';
+import { calculateClaim, getBetResult } from '../blockchain/round-math';
+import { IndexerStore } from '../indexer/indexer.store';
+import {
+  LeaderboardQuery,
+  LeaderboardWindow,
+  SortKey,
+} from './dto/leaderboard.dto';
+
+// Rolling windows in seconds, null meaning all-time
+const WINDOWS: Record<LeaderboardWindow, number | null> = {
+  '24h': 24 * 60 * 60,
+  '7d': 7 * 24 * 60 * 60,
+  all: null,
+};
+
+interface PlayerStats {
+  address: string;
+  rounds: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  volume: bigint;
+  netProfit: bigint;
+  currentStreak: number;
+  longestWinStreak: number;
+}
+
+@Injectable()
+export class LeaderboardService {
+  constructor(private readonly store: IndexerStore) {}
+
+  /**
+   * Rank addresses over settled bets. Payouts follow claim(): winners get
+   * their pro-rata share of the pool minus the treasury fee, ties get
+   * nothing back.
+   */
+  getLeaderboard(query: LeaderboardQuery) {
+    const { window, sortBy, minRounds, limit } = query;
+    const coin = query.coin === 'ALL' ? undefined : parseCoin(query.coin);
+
+    const duration = WINDOWS[window];
+    const from =
+      duration === null ? undefined : Math.floor(Date.now() / 1000) - duration;
+
+    // Oldest first so win streaks follow the order bets were settled in
+    const bets = this.store.getBets({ coin, from }).reverse();
+    const players = new Map<string, PlayerStats>();
+
+    for (const { bet, round } of bets) {
+      const result = getBetResult(round?.outcome ?? null, bet.position);
+      if (result === 'pending') continue;
+
+      let stats = players.get(bet.user);
+      if (!stats) {
+        stats = {
+          address: bet.user,
+          rounds: 0,
+          wins: 0,
+          losses: 0,
+          ties: 0,
+          volume: 0n,
+          netProfit: 0n,
+          currentStreak: 0,
+          longestWinStreak: 0,
+        };
+        players.set(bet.user, stats);
+      }
+
+      const amount = BigInt(bet.amount);
+      stats.rounds++;
+      stats.volume += amount;
+      stats.netProfit -= amount;
+
+      if (result === 'won') {
+        const { userPayout } = calculateClaim(
+          BigInt(round.totalBullAmount),
+          BigInt(round.totalBearAmount),
+          bet.position,
+          amount,
+        );
+        stats.netProfit += userPayout;
+        stats.wins++;
+        stats.currentStreak++;
+        stats.longestWinStreak = Math.max(
+          stats.longestWinStreak,
+          stats.currentStreak,
+        );
+      } else {
+        if (result === 'lost') stats.losses++;
+        else stats.ties++;
+        stats.currentStreak = 0;
+      }
+    }
+
+    let ranked = [...players.values()];
+    if (sortBy === 'winRate') {
+      ranked = ranked.filter((stats) => stats.rounds >= minRounds);
+    }
+    ranked.sort((a, b) => this.compare(sortBy, a, b));
+
+    return {
+      coin: coin === undefined ? 'ALL' : COINS[coin],
+      window,
+      sortBy,
+      minRounds,
+      entries: ranked.slice(0, limit).map((stats, i) => ({
+        rank: i + 1,
+        address: stats.address,
+        rounds: stats.rounds,
+        wins: stats.wins,
+        losses: stats.losses,
+        ties: stats.ties,
+        winRate: stats.wins / stats.rounds,
+        volume: ethers.formatEther(stats.volume),
+        netProfit: ethers.formatEther(stats.netProfit),
+        longestWinStreak: stats.longestWinStreak,
+      })),
+    };
+  }
+
+  // Descending on the chosen metric, net profit as tie-breaker
+  private compare(sortBy: SortKey, a: PlayerStats, b: PlayerStats): number {
+    const byBigInt = (x: bigint, y: bigint) => (y > x ? 1 : y < x ? -1 : 0);
+
+    let order = 0;
+    switch (sortBy) {
+      case 'winRate':
+        order = b.wins / b.rounds - a.wins / a.rounds;
+        break;
+      case 'volume':
+        order = byBigInt(a.volume, b.volume);
+        break;
+      case 'winStreak':
+        order = b.longestWinStreak - a.longestWinStreak;
+        break;
+    }
+
+    return order || byBigInt(a.netProfit, b.netProfit);
+  }
+}
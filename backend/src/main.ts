@@ -1,18 +1,39 @@
+import { ValidationPipe } from '@nestjs/common';
 import { NestFactory } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
 import { AppModule } from './app.module';
+import { InvalidParameterError } from './common/errors/prediction.errors';
+import { PredictionExceptionFilter } from './common/filters/prediction-exception.filter';
+import { EnvironmentVariables } from './config/env.validation';
+import { RealtimeAdapter } from './realtime/realtime.adapter';
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule);
+  const config = app.get<ConfigService<EnvironmentVariables, true>>(ConfigService);
+  const port = config.get('PORT', { infer: true });
+  const corsOrigin = config.get('CORS_ORIGIN', { infer: true });
   
   // Enable CORS for frontend
   app.enableCors({
-    origin: 'http://localhost:3000',
+    origin: corsOrigin,
     credentials: true,
   });
+  app.useWebSocketAdapter(new RealtimeAdapter(app, corsOrigin));
+
+  // Errors are returned as { statusCode, code, message, details? }
+  app.useGlobalPipes(
+    new ValidationPipe({
+      transform: true,
+      exceptionFactory: (errors) =>
+        new InvalidParameterError(
+          'Invalid request parameters',
+          errors.flatMap((error) => Object.values(error.constraints ?? {})),
+        ),
+    }),
+  );
+  app.useGlobalFilters(new PredictionExceptionFilter());
   
-  await app.listen(3001);
-  console.log('🚀 Backend server running on http://localhost:3001');
+  await app.listen(port);
+  console.log(`🚀 Backend server running on http://localhost:${port}`);
 }
 bootstrap();
-
-
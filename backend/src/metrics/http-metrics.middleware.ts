@@ -0,0 +1,27 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { NextFunction, Request, Response } from 'express';
+import { MetricsService } from './metrics.service';
+
+/**
+ * Records the duration of every HTTP request under its route pattern, so
+ * /round/BTC/5 and /round/ETH/6 share a series
+ */
+@Injectable()
+export class HttpMetricsMiddleware implements NestMiddleware {
+  constructor(private readonly metricsService: MetricsService) {}
+
+  use(req: Request, res: Response, next: NextFunction) {
+    const start = process.hrtime.bigint();
+    res.on('finish', () => {
+      // Requests that matched no route are grouped to bound cardinality
+      const route = req.route?.path ?? 'unmatched';
+      this.metricsService.observeHttp(
+        req.method,
+        route,
+        res.statusCode,
+        Number(process.hrtime.bigint() - start) / 1e9,
+      );
+    });
+    next();
+  }
+}
@@ -0,0 +1,15 @@
+import { Controller, Get, Res } from '@nestjs/common';
+import { Response } from 'express';
+import { MetricsService } from './metrics.service';
+
+@Controller()
+export class MetricsController {
+  constructor(private readonly metricsService: MetricsService) {}
+
+  @Get('metrics')
+  async getMetrics(@Res({ passthrough: true }) res: Response) {
+    const metrics = await this.metricsService.getMetrics();
+    res.set('Content-Type', this.metricsService.contentType);
+    return metrics;
+  }
+}
@@ -0,0 +1,211 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import {
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+  collectDefaultMetrics,
+} from 'prom-client';
+import { Subscription } from 'rxjs';
+import {
+  COINS,
+  Position,
+  RoundStatus,
+} from '../blockchain/contract.constants';
+import { CoinsService } from '../coins/coins.service';
+import { DashboardService } from '../dashboard/dashboard.service';
+import { IndexerService } from '../indexer/indexer.service';
+import { IndexedEvent } from '../indexer/indexer.types';
+
+/**
+ * Prometheus metrics of the backend and the market. Market gauges are read
+ * from the chain on every scrape; bet and claim counters follow the events
+ * the indexer sees after startup.
+ */
+@Injectable()
+export class MetricsService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(MetricsService.name);
+  private readonly registry = new Registry();
+  private subscription: Subscription | null = null;
+
+  private readonly rpcDuration = new Histogram({
+    name: 'prediction_rpc_duration_seconds',
+    help: 'Duration of contract calls made by PredictionService',
+    labelNames: ['method'],
+    registers: [this.registry],
+  });
+  private readonly rpcErrors = new Counter({
+    name: 'prediction_rpc_errors_total',
+    help: 'Failed contract calls made by PredictionService',
+    labelNames: ['method'],
+    registers: [this.registry],
+  });
+  private readonly httpDuration = new Histogram({
+    name: 'http_request_duration_seconds',
+    help: 'Duration of HTTP requests by route',
+    labelNames: ['method', 'route', 'status'],
+    registers: [this.registry],
+  });
+  private readonly currentRound = new Gauge({
+    name: 'prediction_current_round_id',
+    help: 'currentRound of the coin',
+    labelNames: ['coin'],
+    registers: [this.registry],
+  });
+  private readonly pool = new Gauge({
+    name: 'prediction_pool_ether',
+    help: 'Pool of the next (open) and live (locked) round by position',
+    labelNames: ['coin', 'round', 'position'],
+    registers: [this.registry],
+  });
+  private readonly secondsUntilLock = new Gauge({
+    name: 'prediction_seconds_until_lock',
+    help: 'Seconds until the open round can be locked, 0 once it can',
+    labelNames: ['coin'],
+    registers: [this.registry],
+  });
+  private readonly keeperLag = new Gauge({
+    name: 'prediction_keeper_lag_seconds',
+    help: 'Seconds the open round has stayed open past lockTimestamp',
+    labelNames: ['coin'],
+    registers: [this.registry],
+  });
+  private readonly oraclePrice = new Gauge({
+    name: 'prediction_oracle_price',
+    help: 'Price returned by getCurrentPrice, in the feed currency',
+    labelNames: ['coin'],
+    registers: [this.registry],
+  });
+  private readonly marketErrors = new Counter({
+    name: 'prediction_market_scrape_errors_total',
+    help: 'Scrapes where the market gauges of a coin could not be read',
+    labelNames: ['coin'],
+    registers: [this.registry],
+  });
+  private readonly bets = new Counter({
+    name: 'prediction_bets_total',
+    help: 'BetPlaced events seen since startup',
+    labelNames: ['coin', 'position'],
+    registers: [this.registry],
+  });
+  private readonly claims = new Counter({
+    name: 'prediction_claims_total',
+    help: 'BetClaimed events seen since startup',
+    labelNames: ['coin'],
+    registers: [this.registry],
+  });
+
+  constructor(
+    private readonly coinsService: CoinsService,
+    private readonly dashboardService: DashboardService,
+    private readonly indexerService: IndexerService,
+  ) {
+    collectDefaultMetrics({ register: this.registry });
+  }
+
+  onApplicationBootstrap() {
+    this.subscription = this.indexerService.liveEvents$.subscribe((indexed) =>
+      this.countEvent(indexed),
+    );
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  get contentType(): string {
+    return this.registry.contentType;
+  }
+
+  /**
+   * Every metric in the Prometheus text format, with fresh market gauges
+   */
+  async getMetrics(): Promise<string> {
+    await this.updateMarketGauges();
+    return this.registry.metrics();
+  }
+
+  /**
+   * Times a contract call, counting it as an error when it throws
+   */
+  async observeRpc<T>(method: string, call: () => Promise<T>): Promise<T> {
+    const end = this.rpcDuration.startTimer({ method });
+    try {
+      return await call();
+    } catch (error) {
+      this.rpcErrors.inc({ method });
+      throw error;
+    } finally {
+      end();
+    }
+  }
+
+  observeHttp(method: string, route: string, status: number, seconds: number) {
+    this.httpDuration.observe({ method, route, status }, seconds);
+  }
+
+  private async updateMarketGauges() {
+    let coins: Awaited<ReturnType<CoinsService['getCoins']>>;
+    try {
+      coins = await this.coinsService.getCoins();
+    } catch (error) {
+      this.logger.warn(`Could not read coins: ${error.message}`);
+      return;
+    }
+
+    for (const { symbol: coin } of coins) {
+      let dashboard: Awaited<ReturnType<DashboardService['getDashboard']>>;
+      try {
+        dashboard = await this.dashboardService.getDashboard(coin, 0);
+      } catch (error) {
+        this.marketErrors.inc({ coin });
+        this.logger.warn(`Could not read ${coin} market: ${error.message}`);
+        continue;
+      }
+
+      const { next, live, price } = dashboard;
+      const now = Number(dashboard.blockTimestamp);
+      for (const [name, round] of [
+        ['next', next],
+        ['live', live],
+      ] as const) {
+        this.pool.set(
+          { coin, round: name, position: 'bull' },
+          round ? Number(round.totalBullAmount) : 0,
+        );
+        this.pool.set(
+          { coin, round: name, position: 'bear' },
+          round ? Number(round.totalBearAmount) : 0,
+        );
+      }
+
+      if (next) {
+        const untilLock = Number(next.lockTimestamp) - now;
+        const open = next.status === RoundStatus.Open;
+        this.currentRound.set({ coin }, Number(next.roundId));
+        this.secondsUntilLock.set({ coin }, open ? Math.max(0, untilLock) : 0);
+        this.keeperLag.set({ coin }, open ? Math.max(0, -untilLock) : 0);
+      }
+      if (price) {
+        this.oraclePrice.set({ coin }, Number(price.price));
+      }
+    }
+  }
+
+  private countEvent({ event }: IndexedEvent) {
+    const coin = COINS[Number(event.args.coin)];
+
+    if (event.name === 'BetPlaced') {
+      const position =
+        Number(event.args.position) === Position.Bull ? 'bull' : 'bear';
+      this.bets.inc({ coin, position });
+    } else if (event.name === 'BetClaimed') {
+      this.claims.inc({ coin });
+    }
+  }
+}
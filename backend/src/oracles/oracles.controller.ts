@@ -0,0 +1,12 @@
+import { Controller, Get } from '@nestjs/common';
+import { OraclesService } from './oracles.service';
+
+@Controller('api/prediction')
+export class OraclesController {
+  constructor(private readonly oraclesService: OraclesService) {}
+
+  @Get('oracles')
+  getOracles() {
+    return this.oraclesService.getOracles();
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { AlertsModule } from '../alerts/alerts.module';
+import { CoinsModule } from '../coins/coins.module';
+import { IndexerModule } from '../indexer/indexer.module';
+import { OraclesController } from './oracles.controller';
+import { OraclesService } from './oracles.service';
+
+@Module({
+  imports: [AlertsModule, IndexerModule, CoinsModule],
+  controllers: [OraclesController],
+  providers: [OraclesService],
+  exports: [OraclesService],
+})
+export class OraclesModule {}
@@ -0,0 +1,301 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ethers } from 'ethers';
+import { Subscription } from 'rxjs';
+import { Alert, AlertsService } from '../alerts/alerts.service';
+import { BlockchainService } from '../blockchain/blockchain.service';
+import { COINS } from '../blockchain/contract.constants';
+import { ORACLE_ABI } from '../blockchain/oracle.abi';
+import { CoinInfo, CoinsService } from '../coins/coins.service';
+import { toPredictionError } from '../common/errors/contract-errors';
+import { EnvironmentVariables } from '../config/env.validation';
+import { IndexerService } from '../indexer/indexer.service';
+import { IndexerStore } from '../indexer/indexer.store';
+import { IndexedEvent } from '../indexer/indexer.types';
+
+interface RoundData {
+  roundId: bigint;
+  answer: bigint;
+  startedAt: bigint;
+  updatedAt: bigint;
+  answeredInRound: bigint;
+}
+
+interface FeedState {
+  lastRead: RoundData | null;
+  lastReadAt: string | null;
+  lastError: string | null;
+  // Found by the last poll; settlement alerts only go to recentAlerts
+  alerts: Alert[];
+}
+
+/**
+ * Reads the price oracle of every coin directly and watches feed health:
+ * feeds that stopped updating, answers that jump more than
+ * ORACLE_DEVIATION_PERCENT between two reads, and lock or close prices
+ * taken from a feed that had not updated since the previous round.
+ * Alerts go to the alert sinks.
+ */
+@Injectable()
+export class OraclesService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(OraclesService.name);
+  private readonly interval: number;
+  private readonly staleAfter: number;
+  private readonly deviationPercent: number;
+  private readonly feeds: FeedState[] = COINS.map(() => ({
+    lastRead: null,
+    lastReadAt: null,
+    lastError: null,
+    alerts: [],
+  }));
+  private subscription: Subscription | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly blockchainService: BlockchainService,
+    private readonly coinsService: CoinsService,
+    private readonly indexerService: IndexerService,
+    private readonly store: IndexerStore,
+    private readonly alertsService: AlertsService,
+    private readonly configService: ConfigService<EnvironmentVariables, true>,
+  ) {
+    this.interval = this.configService.get('ORACLE_POLL_INTERVAL_MS', {
+      infer: true,
+    });
+    this.staleAfter = this.configService.get('ORACLE_STALE_AFTER_SECONDS', {
+      infer: true,
+    });
+    this.deviationPercent = this.configService.get(
+      'ORACLE_DEVIATION_PERCENT',
+      { infer: true },
+    );
+  }
+
+  onApplicationBootstrap() {
+    if (!this.configService.get('ORACLE_MONITOR_ENABLED', { infer: true })) {
+      return;
+    }
+
+    this.subscription = this.indexerService.liveEvents$.subscribe((indexed) =>
+      this.checkSettlement(indexed),
+    );
+    this.running = true;
+    this.poll().finally(() => this.schedule());
+  }
+
+  onModuleDestroy() {
+    this.running = false;
+    this.subscription?.unsubscribe();
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Fresh latestRoundData of every feed with its metadata, alongside the
+   * alerts raised by the monitor
+   */
+  async getOracles() {
+    const coins = await this.coinsService.getCoins();
+    let block: ethers.Block;
+    let rounds: RoundData[];
+    try {
+      block = await this.blockchainService.provider.getBlock('latest');
+      rounds = await Promise.all(
+        coins.map((coin) => this.readFeed(coin, block.number)),
+      );
+    } catch (error) {
+      throw toPredictionError(error, 'Failed to read price oracles');
+    }
+
+    return {
+      monitor: {
+        enabled: this.running,
+        intervalMs: this.interval,
+        staleAfterSeconds: this.staleAfter,
+        deviationPercent: this.deviationPercent,
+      },
+      blockNumber: block.number,
+      blockTimestamp: block.timestamp,
+      coins: coins.map((coin, i) => {
+        const round = rounds[i];
+        const feed = this.feeds[coin.index];
+        return {
+          coin: coin.symbol,
+          oracle: coin.oracle,
+          decimals: coin.decimals,
+          description: coin.description,
+          latestRoundData: {
+            roundId: round.roundId.toString(),
+            answer: round.answer.toString(),
+            startedAt: Number(round.startedAt),
+            updatedAt: Number(round.updatedAt),
+            answeredInRound: round.answeredInRound.toString(),
+          },
+          price: ethers.formatUnits(round.answer, coin.decimals),
+          ageSeconds: block.timestamp - Number(round.updatedAt),
+          stale: this.isStale(round, block.timestamp),
+          lastReadAt: feed.lastReadAt,
+          lastError: feed.lastError,
+          alerts: feed.alerts,
+        };
+      }),
+      recentAlerts: this.alertsService.getRecentAlerts('oracles'),
+    };
+  }
+
+  private schedule() {
+    if (!this.running) return;
+    this.timer = setTimeout(async () => {
+      await this.poll();
+      this.schedule();
+    }, this.interval);
+  }
+
+  private async poll() {
+    let coins: CoinInfo[];
+    let block: ethers.Block;
+    try {
+      coins = await this.coinsService.getCoins();
+      block = await this.blockchainService.provider.getBlock('latest');
+    } catch (error) {
+      this.logger.warn(`Could not poll price oracles: ${error.message}`);
+      return;
+    }
+
+    for (const coin of coins) {
+      const feed = this.feeds[coin.index];
+      let round: RoundData;
+      try {
+        round = await this.readFeed(coin, block.number);
+      } catch (error) {
+        feed.lastError = error.shortMessage ?? error.message;
+        this.logger.warn(
+          `Could not read ${coin.symbol} oracle: ${feed.lastError}`,
+        );
+        continue;
+      }
+
+      const at = new Date().toISOString();
+      const alerts: Alert[] = [];
+      if (this.isStale(round, block.timestamp)) {
+        const ageSeconds = block.timestamp - Number(round.updatedAt);
+        alerts.push(
+          await this.alertsService.sendOnce(
+            {
+              source: 'oracles',
+              type: 'STALE_FEED',
+              severity: 'critical',
+              coin: coin.symbol,
+              message: `${coin.symbol} oracle last updated ${ageSeconds}s ago (round ${round.roundId}, answered in ${round.answeredInRound})`,
+              details: {
+                ageSeconds,
+                roundId: round.roundId.toString(),
+                answeredInRound: round.answeredInRound.toString(),
+                blockNumber: block.number,
+              },
+              at,
+            },
+            feed.alerts,
+          ),
+        );
+      }
+
+      const previous = feed.lastRead?.answer;
+      if (previous !== undefined && previous !== 0n) {
+        const change = round.answer - previous;
+        const percent =
+          Number(((change < 0n ? -change : change) * 10n ** 6n) / previous) /
+          1e4;
+        if (percent > this.deviationPercent) {
+          const from = ethers.formatUnits(previous, coin.decimals);
+          const to = ethers.formatUnits(round.answer, coin.decimals);
+          const alert: Alert = {
+            source: 'oracles',
+            type: 'PRICE_DEVIATION',
+            severity: 'warning',
+            coin: coin.symbol,
+            message: `${coin.symbol} price moved ${percent}% between reads, from ${from} to ${to}`,
+            details: { percent, from, to, blockNumber: block.number },
+            at,
+          };
+          await this.alertsService.send(alert);
+          alerts.push(alert);
+        }
+      }
+
+      feed.lastRead = round;
+      feed.lastReadAt = new Date().toISOString();
+      feed.lastError = null;
+      feed.alerts = alerts;
+    }
+  }
+
+  /**
+   * lockRound and closeRound take whatever the feed holds at that block.
+   * Flags a settlement whose feed had not updated since the same step of
+   * the previous round, meaning both rounds used the same answer.
+   */
+  private async checkSettlement({ event, round }: IndexedEvent) {
+    if (event.name !== 'RoundLocked' && event.name !== 'RoundClosed') return;
+    if (!round) return;
+
+    const previous = this.store.getRound(round.coin, round.roundId - 1);
+    const step = event.name === 'RoundLocked' ? 'lock' : 'close';
+    const previousAt =
+      step === 'lock' ? previous?.lockedAt : previous?.closedAt;
+    if (previousAt == null) return;
+
+    try {
+      const coin = (await this.coinsService.getCoins())[round.coin];
+      const data = await this.readFeed(coin, event.blockNumber);
+      if (Number(data.updatedAt) > previousAt) return;
+
+      await this.alertsService.send({
+        source: 'oracles',
+        type: 'STALE_SETTLEMENT',
+        severity: 'warning',
+        coin: coin.symbol,
+        message: `${coin.symbol} round ${round.roundId} ${step} price came from oracle round ${data.roundId}, last updated at ${data.updatedAt}, before round ${previous.roundId} ${step === 'lock' ? 'locked' : 'closed'} at ${previousAt}`,
+        details: {
+          roundId: round.roundId,
+          step,
+          oracleRoundId: data.roundId.toString(),
+          updatedAt: Number(data.updatedAt),
+          blockNumber: event.blockNumber,
+        },
+        at: new Date().toISOString(),
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Could not check ${COINS[round.coin]} round ${round.roundId} ${step} price: ${error.message}`,
+      );
+    }
+  }
+
+  private async readFeed(coin: CoinInfo, blockTag: number): Promise<RoundData> {
+    const oracle = new ethers.Contract(
+      coin.oracle,
+      ORACLE_ABI,
+      this.blockchainService.provider,
+    );
+    const [roundId, answer, startedAt, updatedAt, answeredInRound] =
+      await oracle.latestRoundData({ blockTag });
+    return { roundId, answer, startedAt, updatedAt, answeredInRound };
+  }
+
+  // Chainlink marks a carried-over answer with answeredInRound < roundId
+  private isStale(round: RoundData, now: number): boolean {
+    return (
+      now - Number(round.updatedAt) > this.staleAfter ||
+      round.answeredInRound < round.roundId
+    );
+  }
+}
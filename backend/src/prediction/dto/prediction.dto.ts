@@ -0,0 +1,85 @@
+import { applyDecorators } from '@nestjs/common';
+import { Transform, Type } from 'class-transformer';
+import {
+  IsEthereumAddress,
+  IsIn,
+  IsInt,
+  Matches,
+  Min,
+} from 'class-validator';
+import { COINS } from '../../blockchain/contract.constants';
+
+export const toUpperCase = () =>
+  Transform(({ value }) =>
+    typeof value === 'string' ? value.toUpperCase() : value,
+  );
+
+export const toLowerCase = () =>
+  Transform(({ value }) =>
+    typeof value === 'string' ? value.toLowerCase() : value,
+  );
+
+// Field validators shared by the request DTOs of every module
+
+export const IsCoin = () =>
+  applyDecorators(
+    toUpperCase(),
+    IsIn(COINS, { message: `coin must be one of ${COINS.join(', ')}` }),
+  );
+
+export const IsAddress = (name = 'address') =>
+  IsEthereumAddress({ message: `${name} must be an Ethereum address` });
+
+export const IsRoundId = (name = 'roundId') =>
+  applyDecorators(
+    Type(() => Number),
+    IsInt({ message: `${name} must be an integer` }),
+    Min(1),
+  );
+
+export const IsPosition = () =>
+  applyDecorators(
+    toLowerCase(),
+    IsIn(['bull', 'bear'], { message: 'position must be bull or bear' }),
+  );
+
+// Ether amount, at most 18 decimals so parseEther can't fail
+export const IsEtherAmount = (name = 'amount') =>
+  Matches(/^\d+(\.\d{1,18})?$/, {
+    message: `${name} must be a decimal ether amount`,
+  });
+
+export const IsTimestamp = (name: string) =>
+  applyDecorators(
+    Type(() => Number),
+    IsInt({ message: `${name} must be a unix timestamp in seconds` }),
+    Min(0),
+  );
+
+export class CoinParams {
+  @IsCoin()
+  coin: string;
+}
+
+export class AddressParams {
+  @IsAddress()
+  address: string;
+}
+
+export class RoundParams extends CoinParams {
+  @IsRoundId()
+  roundId: number;
+}
+
+export class UserBetParams extends RoundParams {
+  @IsAddress()
+  address: string;
+}
+
+export class PayoutQuery {
+  @IsPosition()
+  position: 'bull' | 'bear';
+
+  @IsEtherAmount()
+  amount: string;
+}
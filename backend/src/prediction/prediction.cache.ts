@@ -0,0 +1,125 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BlockchainService } from '../blockchain/blockchain.service';
+import { EnvironmentVariables } from '../config/env.validation';
+
+export type CacheBlockTag = number | 'latest';
+
+/**
+ * Read-through cache for contract calls. Values are kept for the block
+ * they were read at and dropped when a new block is seen; values reported
+ * final (closed rounds) are kept for good. Concurrent requests for the same
+ * key share one RPC call.
+ */
+@Injectable()
+export class PredictionCache implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(PredictionCache.name);
+  private readonly enabled: boolean;
+  private readonly pollInterval: number;
+  private readonly permanent = new Map<string, unknown>();
+  private blockEntries = new Map<string, Promise<unknown>>();
+  // null while the head is unknown, which bypasses the per-block cache
+  private blockNumber: number | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly blockchainService: BlockchainService,
+    private readonly configService: ConfigService<EnvironmentVariables, true>,
+  ) {
+    this.enabled = this.configService.get('CACHE_ENABLED', { infer: true });
+    this.pollInterval = this.configService.get('CACHE_POLL_INTERVAL_MS', {
+      infer: true,
+    });
+  }
+
+  async onApplicationBootstrap() {
+    if (!this.enabled) {
+      this.logger.log('Cache disabled');
+      return;
+    }
+
+    this.running = true;
+    await this.poll();
+    this.schedule();
+  }
+
+  onModuleDestroy() {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Cached value for key, loading it at the current block on a miss
+   */
+  async get<T>(
+    key: string,
+    load: (blockTag: CacheBlockTag) => Promise<T>,
+    isFinal: (value: T) => boolean = () => false,
+  ): Promise<T> {
+    if (this.permanent.has(key)) {
+      return this.permanent.get(key) as T;
+    }
+
+    if (!this.enabled || this.blockNumber === null) {
+      return this.keepIfFinal(key, await load('latest'), isFinal);
+    }
+
+    let entry = this.blockEntries.get(key) as Promise<T> | undefined;
+    if (!entry) {
+      const entries = this.blockEntries;
+      entry = load(this.blockNumber).then((value) =>
+        this.keepIfFinal(key, value, isFinal),
+      );
+      // Failures are not cached; the next request retries
+      entry.catch(() => entries.delete(key));
+      entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  private keepIfFinal<T>(
+    key: string,
+    value: T,
+    isFinal: (value: T) => boolean,
+  ): T {
+    if (isFinal(value)) {
+      this.permanent.set(key, value);
+    }
+    return value;
+  }
+
+  private schedule() {
+    if (!this.running) return;
+    this.timer = setTimeout(async () => {
+      await this.poll();
+      this.schedule();
+    }, this.pollInterval);
+  }
+
+  private async poll() {
+    let blockNumber: number;
+    try {
+      blockNumber = await this.blockchainService.provider.getBlockNumber();
+    } catch (error) {
+      // Stop serving per-block entries until the head is known again
+      this.blockNumber = null;
+      this.blockEntries = new Map();
+      this.logger.warn(`Could not read block number: ${error.message}`);
+      return;
+    }
+
+    if (blockNumber !== this.blockNumber) {
+      this.blockNumber = blockNumber;
+      this.blockEntries = new Map();
+    }
+  }
+}
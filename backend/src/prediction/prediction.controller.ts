@@ -1,4 +1,10 @@
 import { Controller, Get, Param, Query } from '@nestjs/common';
+import {
+  CoinParams,
+  PayoutQuery,
+  RoundParams,
+  UserBetParams,
+} from './dto/prediction.dto';
 import { PredictionService } from './prediction.service';
 
 @Controller('api/prediction')
@@ -6,46 +12,35 @@ export class PredictionController {
   constructor(private readonly predictionService: PredictionService) {}
 
   @Get('round/:coin')
-  async getCurrentRound(@Param('coin') coin: string) {
+  async getCurrentRound(@Param() { coin }: CoinParams) {
     return this.predictionService.getCurrentRound(coin);
   }
 
   @Get('round/:coin/:roundId')
-  async getRound(
-    @Param('coin') coin: string,
-    @Param('roundId') roundId: string,
-  ) {
-    return this.predictionService.getRound(coin, parseInt(roundId));
+  async getRound(@Param() { coin, roundId }: RoundParams) {
+    return this.predictionService.getRound(coin, roundId);
   }
 
   @Get('price/:coin')
-  async getCurrentPrice(@Param('coin') coin: string) {
+  async getCurrentPrice(@Param() { coin }: CoinParams) {
     return this.predictionService.getCurrentPrice(coin);
   }
 
   @Get('user-bet/:coin/:address/:roundId')
-  async getUserBet(
-    @Param('coin') coin: string,
-    @Param('address') address: string,
-    @Param('roundId') roundId: string,
-  ) {
-    return this.predictionService.getUserBet(coin, address, parseInt(roundId));
+  async getUserBet(@Param() { coin, address, roundId }: UserBetParams) {
+    return this.predictionService.getUserBet(coin, address, roundId);
   }
 
   @Get('payout/:coin/:roundId')
   async calculatePayout(
-    @Param('coin') coin: string,
-    @Param('roundId') roundId: string,
-    @Query('position') position: string,
-    @Query('amount') amount: string,
+    @Param() { coin, roundId }: RoundParams,
+    @Query() { position, amount }: PayoutQuery,
   ) {
     return this.predictionService.calculatePayout(
       coin,
-      parseInt(roundId),
+      roundId,
       position,
       amount,
     );
   }
 }
-
-
@@ -1,126 +1,110 @@
 import { Injectable } from '@nestjs/common';
 import { ethers } from 'ethers';
-import * as fs from 'fs';
-import * as path from 'path';
+import { BlockchainService } from '../blockchain/blockchain.service';
+import { parseCoin } from '../blockchain/coins';
+import { RoundStatus } from '../blockchain/contract.constants';
+import { CoinsService } from '../coins/coins.service';
+import { toPredictionError } from '../common/errors/contract-errors';
+import { RoundNotFoundError } from '../common/errors/prediction.errors';
+import { MetricsService } from '../metrics/metrics.service';
+import { PredictionCache } from './prediction.cache';
+import { formatRound } from './round.format';
 
 @Injectable()
 export class PredictionService {
-  private provider: ethers.JsonRpcProvider;
   private contract: ethers.Contract;
-  private contractAddress: string;
 
-  constructor() {
-    // Connect to local Hardhat node
-    this.provider = new ethers.JsonRpcProvider('http://127.0.0.1:8545');
-    
-    // Contract address - update this after deployment
-    this.contractAddress = process.env.CONTRACT_ADDRESS || '0x0000000000000000000000000000000000000000';
-    
-    // Load ABI from artifacts
-    const artifactPath = path.join(
-      __dirname,
-      '../../../../artifacts/contracts/MultiCoinPredictionMarket.sol/MultiCoinPredictionMarket.json',
-    );
-    
-    let abi = [];
-    try {
-      const artifact = JSON.parse(fs.readFileSync(artifactPath, 'utf8'));
-      abi = artifact.abi;
-    } catch (error) {
-      console.warn('Could not load contract ABI, using fallback');
-    }
-    
-    this.contract = new ethers.Contract(
-      this.contractAddress,
-      abi,
-      this.provider,
-    );
-  }
-
-  private getCoinEnum(coin: string): number {
-    const coinMap: { [key: string]: number } = {
-      BTC: 0,
-      ETH: 1,
-      BNB: 2,
-    };
-    return coinMap[coin.toUpperCase()] ?? 0;
+  constructor(
+    private readonly blockchainService: BlockchainService,
+    private readonly coinsService: CoinsService,
+    private readonly cache: PredictionCache,
+    private readonly metricsService: MetricsService,
+  ) {
+    this.contract = blockchainService.contract;
   }
 
   async getCurrentRound(coin: string) {
     try {
-      const coinEnum = this.getCoinEnum(coin);
-      const roundId = await this.contract.currentRound(coinEnum);
-      const roundData = await this.contract.getCurrentRound(coinEnum);
-      
-      return {
-        roundId: roundId.toString(),
-        coin: Number(roundData[1]),
-        startTimestamp: roundData[2].toString(),
-        lockTimestamp: roundData[3].toString(),
-        closeTimestamp: roundData[4].toString(),
-        lockPrice: roundData[5].toString(),
-        closePrice: roundData[6].toString(),
-        totalBullAmount: ethers.formatEther(roundData[7]),
-        totalBearAmount: ethers.formatEther(roundData[8]),
-        oracleCalled: roundData[9],
-        status: Number(roundData[10]),
-      };
+      const coinEnum = parseCoin(coin);
+
+      return await this.cache.get(
+        `currentRound:${coinEnum}`,
+        async (blockTag) => {
+          const [roundId, roundData] = await this.rpc('getCurrentRound', () =>
+            Promise.all([
+              this.contract.currentRound(coinEnum, { blockTag }),
+              this.contract.getCurrentRound(coinEnum, { blockTag }),
+            ]),
+          );
+          return { ...formatRound(roundData), roundId: roundId.toString() };
+        },
+      );
     } catch (error) {
-      throw new Error(`Failed to get current round: ${error.message}`);
+      throw toPredictionError(error, 'Failed to get current round');
     }
   }
 
   async getRound(coin: string, roundId: number) {
     try {
-      const coinEnum = this.getCoinEnum(coin);
-      const roundData = await this.contract.getRound(coinEnum, roundId);
-      
-      return {
-        roundId: roundData[0].toString(),
-        coin: Number(roundData[1]),
-        startTimestamp: roundData[2].toString(),
-        lockTimestamp: roundData[3].toString(),
-        closeTimestamp: roundData[4].toString(),
-        lockPrice: roundData[5].toString(),
-        closePrice: roundData[6].toString(),
-        totalBullAmount: ethers.formatEther(roundData[7]),
-        totalBearAmount: ethers.formatEther(roundData[8]),
-        oracleCalled: roundData[9],
-        status: Number(roundData[10]),
-      };
+      const coinEnum = parseCoin(coin);
+
+      // Closed rounds never change again
+      return await this.cache.get(
+        `round:${coinEnum}:${roundId}`,
+        async (blockTag) => {
+          const roundData = await this.rpc('getRound', () =>
+            this.contract.getRound(coinEnum, roundId, { blockTag }),
+          );
+          if (roundData[0] === 0n) {
+            throw new RoundNotFoundError();
+          }
+          return formatRound(roundData);
+        },
+        (round) => round.status === RoundStatus.Closed && round.oracleCalled,
+      );
     } catch (error) {
-      throw new Error(`Failed to get round: ${error.message}`);
+      throw toPredictionError(error, 'Failed to get round');
     }
   }
 
   async getCurrentPrice(coin: string) {
     try {
-      const coinEnum = this.getCoinEnum(coin);
-      const price = await this.contract.getCurrentPrice(coinEnum);
-      return {
-        price: ethers.formatUnits(price, 8),
-        raw: price.toString(),
-      };
+      const { index, decimals } = await this.coinsService.getCoin(coin);
+
+      return await this.cache.get(`price:${index}`, async (blockTag) => {
+        const price = await this.rpc('getCurrentPrice', () =>
+          this.contract.getCurrentPrice(index, { blockTag }),
+        );
+        return {
+          price: ethers.formatUnits(price, decimals),
+          raw: price.toString(),
+        };
+      });
     } catch (error) {
-      throw new Error(`Failed to get price: ${error.message}`);
+      throw toPredictionError(error, 'Failed to get price');
     }
   }
 
   async getUserBet(coin: string, address: string, roundId: number) {
     try {
-      const coinEnum = this.getCoinEnum(coin);
-      const betData = await this.contract.getUserBet(coinEnum, address, roundId);
-      
-      return {
-        user: betData[0],
-        roundId: betData[1].toString(),
-        coin: Number(betData[2]),
-        position: Number(betData[3]),
-        amount: ethers.formatEther(betData[4]),
-        claimed: betData[5],
-      };
+      const coinEnum = parseCoin(coin);
+      const key = `bet:${coinEnum}:${address.toLowerCase()}:${roundId}`;
+
+      return await this.cache.get(key, async (blockTag) => {
+        const betData = await this.rpc('getUserBet', () =>
+          this.contract.getUserBet(coinEnum, address, roundId, { blockTag }),
+        );
+        return {
+          user: betData[0],
+          roundId: betData[1].toString(),
+          coin: Number(betData[2]),
+          position: Number(betData[3]),
+          amount: ethers.formatEther(betData[4]),
+          claimed: betData[5],
+        };
+      });
     } catch (error) {
-      throw new Error(`Failed to get user bet: ${error.message}`);
+      throw toPredictionError(error, 'Failed to get user bet');
     }
   }
 
@@ -131,24 +115,34 @@ export class PredictionService {
     amount: string,
   ) {
     try {
-      const coinEnum = this.getCoinEnum(coin);
+      const coinEnum = parseCoin(coin);
       const positionEnum = position.toLowerCase() === 'bull' ? 0 : 1;
       const amountWei = ethers.parseEther(amount);
-      
-      const payout = await this.contract.calculatePayout(
-        coinEnum,
-        roundId,
-        positionEnum,
-        amountWei,
-      );
-      
-      return {
-        payout: ethers.formatEther(payout),
-        raw: payout.toString(),
-      };
+      const key = `payout:${coinEnum}:${roundId}:${positionEnum}:${amountWei}`;
+
+      return await this.cache.get(key, async (blockTag) => {
+        const payout = await this.rpc('calculatePayout', () =>
+          this.contract.calculatePayout(
+            coinEnum,
+            roundId,
+            positionEnum,
+            amountWei,
+            { blockTag },
+          ),
+        );
+        return {
+          payout: ethers.formatEther(payout),
+          raw: payout.toString(),
+        };
+      });
     } catch (error) {
-      throw new Error(`Failed to calculate payout: ${error.message}`);
+      throw toPredictionError(error, 'Failed to calculate payout');
     }
   }
-}
 
+  // Cache misses reach the node; their latency and failures are recorded
+  // per method
+  private rpc<T>(method: string, call: () => Promise<T>): Promise<T> {
+    return this.metricsService.observeRpc(method, call);
+  }
+}
@@ -0,0 +1,22 @@
+import { ethers } from 'ethers';
+
+/**
+ * API shape of a Round struct returned by getRound / getCurrentRound
+ */
+export function formatRound(roundData: ethers.Result) {
+  return {
+    roundId: roundData[0].toString(),
+    coin: Number(roundData[1]),
+    startTimestamp: roundData[2].toString(),
+    lockTimestamp: roundData[3].toString(),
+    closeTimestamp: roundData[4].toString(),
+    lockPrice: roundData[5].toString(),
+    closePrice: roundData[6].toString(),
+    totalBullAmount: ethers.formatEther(roundData[7]),
+    totalBearAmount: ethers.formatEther(roundData[8]),
+    oracleCalled: roundData[9],
+    status: Number(roundData[10]),
+  };
+}
+
+export type RoundResponse = ReturnType<typeof formatRound>;
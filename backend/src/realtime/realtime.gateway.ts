@@ -0,0 +1,169 @@
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  ConnectedSocket,
+  MessageBody,
+  OnGatewayInit,
+  SubscribeMessage,
+  WebSocketGateway,
+  WebSocketServer,
+  WsException,
+} from '@nestjs/websockets';
+import { ethers } from 'ethers';
+import { Subscription } from 'rxjs';
+import { Server, Socket } from 'socket.io';
+import { BlockchainService } from '../blockchain/blockchain.service';
+import { parseCoin } from '../blockchain/coins';
+import { COINS } from '../blockchain/contract.constants';
+import { CoinsService } from '../coins/coins.service';
+import { EnvironmentVariables } from '../config/env.validation';
+import { IndexerService } from '../indexer/indexer.service';
+import { IndexedEvent, IndexedRound } from '../indexer/indexer.types';
+
+const ROUND_TRANSITIONS = {
+  RoundCreated: 'created',
+  RoundLocked: 'locked',
+  RoundClosed: 'closed',
+} as const;
+
+/**
+ * Pushes round lifecycle, pool and oracle price updates to clients.
+ * Clients emit `subscribe` / `unsubscribe` with a coin symbol and receive
+ * `round`, `pool` and `price` messages for that coin only.
+ */
+@WebSocketGateway()
+export class RealtimeGateway implements OnGatewayInit, OnModuleDestroy {
+  @WebSocketServer()
+  server: Server;
+
+  private readonly logger = new Logger(RealtimeGateway.name);
+  private readonly lastPrices = new Map<number, bigint>();
+  private subscription: Subscription | null = null;
+  private priceTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly blockchainService: BlockchainService,
+    private readonly coinsService: CoinsService,
+    private readonly indexerService: IndexerService,
+    private readonly configService: ConfigService<EnvironmentVariables, true>,
+  ) {}
+
+  afterInit() {
+    this.subscription = this.indexerService.liveEvents$.subscribe((indexed) =>
+      this.broadcastEvent(indexed),
+    );
+
+    const interval = this.configService.get('REALTIME_PRICE_INTERVAL_MS', {
+      infer: true,
+    });
+    this.priceTimer = setInterval(() => this.pollPrices(), interval);
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+    if (this.priceTimer) {
+      clearInterval(this.priceTimer);
+    }
+  }
+
+  @SubscribeMessage('subscribe')
+  async subscribe(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() coin: string,
+  ) {
+    const coinEnum = this.parseCoin(coin);
+    await client.join(this.room(coinEnum));
+    return { subscribed: COINS[coinEnum] };
+  }
+
+  @SubscribeMessage('unsubscribe')
+  async unsubscribe(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() coin: string,
+  ) {
+    const coinEnum = this.parseCoin(coin);
+    await client.leave(this.room(coinEnum));
+    return { unsubscribed: COINS[coinEnum] };
+  }
+
+  private parseCoin(coin: string): number {
+    try {
+      return parseCoin(String(coin));
+    } catch (error) {
+      throw new WsException(error.message);
+    }
+  }
+
+  private room(coinEnum: number): string {
+    return `coin:${COINS[coinEnum]}`;
+  }
+
+  private hasSubscribers(coinEnum: number): boolean {
+    const room = this.server.sockets.adapter.rooms.get(this.room(coinEnum));
+    return (room?.size ?? 0) > 0;
+  }
+
+  private broadcastEvent({ event, round }: IndexedEvent) {
+    if (!round) return;
+    const room = this.server.to(this.room(round.coin));
+
+    if (event.name === 'BetPlaced') {
+      room.emit('pool', {
+        coin: COINS[round.coin],
+        roundId: round.roundId.toString(),
+        totalBullAmount: ethers.formatEther(round.totalBullAmount),
+        totalBearAmount: ethers.formatEther(round.totalBearAmount),
+      });
+    } else if (event.name in ROUND_TRANSITIONS) {
+      room.emit('round', {
+        type: ROUND_TRANSITIONS[event.name],
+        coin: COINS[round.coin],
+        blockNumber: event.blockNumber,
+        round: this.formatRound(round),
+      });
+    }
+  }
+
+  /**
+   * Oracles emit no events the indexer could follow, so prices are polled
+   * for coins that currently have subscribers and pushed when they change
+   */
+  private async pollPrices() {
+    for (let coinEnum = 0; coinEnum < COINS.length; coinEnum++) {
+      if (!this.hasSubscribers(coinEnum)) continue;
+
+      try {
+        const price: bigint =
+          await this.blockchainService.contract.getCurrentPrice(coinEnum);
+        if (this.lastPrices.get(coinEnum) === price) continue;
+
+        const { decimals } = (await this.coinsService.getCoins())[coinEnum];
+        this.lastPrices.set(coinEnum, price);
+        this.server.to(this.room(coinEnum)).emit('price', {
+          coin: COINS[coinEnum],
+          price: ethers.formatUnits(price, decimals),
+          raw: price.toString(),
+        });
+      } catch (error) {
+        this.logger.warn(
+          `Failed to poll ${COINS[coinEnum]} price: ${error.message}`,
+        );
+      }
+    }
+  }
+
+  private formatRound(round: IndexedRound) {
+    return {
+      roundId: round.roundId.toString(),
+      startTimestamp: round.startTimestamp.toString(),
+      lockTimestamp: round.lockTimestamp.toString(),
+      closeTimestamp: round.closeTimestamp.toString(),
+      lockPrice: round.lockPrice ?? '0',
+      closePrice: round.closePrice ?? '0',
+      totalBullAmount: ethers.formatEther(round.totalBullAmount),
+      totalBearAmount: ethers.formatEther(round.totalBearAmount),
+      status: round.status,
+      winner: round.outcome,
+    };
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { CoinsModule } from '../coins/coins.module';
+import { IndexerModule } from '../indexer/indexer.module';
+import { RealtimeGateway } from './realtime.gateway';
+
+@Module({
+  imports: [CoinsModule, IndexerModule],
+  providers: [RealtimeGateway],
+})
+export class RealtimeModule {}
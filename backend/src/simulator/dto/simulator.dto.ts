@@ -0,0 +1,86 @@
+import {
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Max,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import {
+  PRICE_MODELS,
+  PriceModelName,
+  SCENARIOS,
+  ScenarioName,
+} from '../price-models';
+
+const isNumber = (name: string) =>
+  IsNumber(
+    { allowNaN: false, allowInfinity: false },
+    { message: `${name} must be a number` },
+  );
+
+/**
+ * Price model to switch a coin to. Fields that don't apply to the chosen
+ * model are ignored; omitted ones get the defaults of that model.
+ */
+export class SetModelBody {
+  @IsIn(PRICE_MODELS, {
+    message: `model must be one of ${PRICE_MODELS.join(', ')}`,
+  })
+  model: PriceModelName;
+
+  // Random when omitted
+  @IsOptional()
+  @IsInt({ message: 'seed must be an integer' })
+  @Min(0)
+  @Max(2 ** 32 - 1)
+  seed?: number;
+
+  // random-walk
+  @IsOptional()
+  @isNumber('step')
+  @IsPositive()
+  @Max(1_000_000)
+  step?: number;
+
+  // gbm, annualised
+  @IsOptional()
+  @isNumber('volatility')
+  @IsPositive()
+  @Max(10)
+  volatility?: number;
+
+  @IsOptional()
+  @isNumber('drift')
+  @Min(-10)
+  @Max(10)
+  drift?: number;
+
+  // scenario
+  @ValidateIf((body: SetModelBody) => body.model === 'scenario')
+  @IsIn(SCENARIOS, {
+    message: `scenario must be one of ${SCENARIOS.join(', ')}`,
+  })
+  scenario?: ScenarioName;
+
+  @IsOptional()
+  @isNumber('ratePercent')
+  @IsPositive()
+  @Max(100)
+  ratePercent?: number;
+
+  // replay, relative to SIMULATOR_DATA_DIR
+  @ValidateIf((body: SetModelBody) => body.model === 'replay')
+  @IsString()
+  @IsNotEmpty({ message: 'file is required for replay' })
+  file?: string;
+
+  @IsOptional()
+  @IsBoolean({ message: 'loop must be a boolean' })
+  loop?: boolean;
+}
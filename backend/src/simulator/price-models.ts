@@ -0,0 +1,154 @@
+// Price paths for driving MockPriceOracle in demos and QA
+
+export interface PriceModel {
+  /**
+   * Next price (in USD) given the current one
+   */
+  next(current: number): number;
+}
+
+export const PRICE_MODELS = [
+  'random-walk',
+  'gbm',
+  'scenario',
+  'replay',
+] as const;
+
+export type PriceModelName = (typeof PRICE_MODELS)[number];
+
+export const SCENARIOS = ['pump', 'crash', 'flat'] as const;
+
+export type ScenarioName = (typeof SCENARIOS)[number];
+
+export interface PriceModelConfig {
+  model: PriceModelName;
+  // Seed for the random models, so a run can be reproduced
+  seed?: number;
+  // random-walk: maximum whole-dollar move per update
+  step?: number;
+  // gbm: annualised volatility and drift, e.g. 0.8 = 80%
+  volatility?: number;
+  drift?: number;
+  // scenario: direction and percentage move per update
+  scenario?: ScenarioName;
+  ratePercent?: number;
+  // replay: prices loaded from a CSV, restarted from the top when loop is set
+  file?: string;
+  loop?: boolean;
+}
+
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+/**
+ * Small seeded PRNG (mulberry32) returning floats in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * The ±$step whole-dollar walk from scripts/update-mock-prices.js
+ */
+export class RandomWalkModel implements PriceModel {
+  constructor(
+    private readonly step: number,
+    private readonly random: () => number,
+  ) {}
+
+  next(current: number): number {
+    const change =
+      Math.floor(this.random() * (2 * this.step + 1)) - this.step;
+    return Math.max(1, Math.floor(current + change));
+  }
+}
+
+/**
+ * Geometric Brownian motion sampled every intervalSeconds
+ */
+export class GbmModel implements PriceModel {
+  private readonly dt: number;
+
+  constructor(
+    private readonly volatility: number,
+    private readonly drift: number,
+    intervalSeconds: number,
+    private readonly random: () => number,
+  ) {
+    this.dt = intervalSeconds / SECONDS_PER_YEAR;
+  }
+
+  next(current: number): number {
+    // Box-Muller transform for a standard normal sample
+    const u = 1 - this.random();
+    const v = this.random();
+    const z = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+
+    const exponent =
+      (this.drift - (this.volatility * this.volatility) / 2) * this.dt +
+      this.volatility * Math.sqrt(this.dt) * z;
+
+    return current * Math.exp(exponent);
+  }
+}
+
+/**
+ * Deterministic paths: a steady pump or crash, or a flat price that makes
+ * every round end in a tie
+ */
+export class ScenarioModel implements PriceModel {
+  constructor(
+    private readonly scenario: ScenarioName,
+    private readonly ratePercent: number,
+  ) {}
+
+  next(current: number): number {
+    switch (this.scenario) {
+      case 'pump':
+        return current * (1 + this.ratePercent / 100);
+      case 'crash':
+        return Math.max(current * (1 - this.ratePercent / 100), 0.00000001);
+      case 'flat':
+        return current;
+    }
+  }
+}
+
+/**
+ * Replays recorded prices in order, holding the last one at the end
+ * unless loop is set
+ */
+export class ReplayModel implements PriceModel {
+  private index = 0;
+
+  constructor(
+    private readonly prices: number[],
+    private readonly loop: boolean,
+  ) {}
+
+  next(current: number): number {
+    if (this.index >= this.prices.length) {
+      if (!this.loop) return this.prices[this.prices.length - 1] ?? current;
+      this.index = 0;
+    }
+    return this.prices[this.index++];
+  }
+}
+
+/**
+ * Prices from a CSV file: the last column of each row, header rows skipped
+ */
+export function parsePriceCsv(content: string): number[] {
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .map((line) => Number(line.split(',').pop()))
+    .filter((price) => Number.isFinite(price) && price > 0);
+}
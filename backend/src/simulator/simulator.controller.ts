@@ -0,0 +1,21 @@
+import { Body, Controller, Get, Param, Put, UseGuards } from '@nestjs/common';
+import { AdminGuard } from '../common/guards/admin.guard';
+import { CoinParams } from '../prediction/dto/prediction.dto';
+import { SetModelBody } from './dto/simulator.dto';
+import { SimulatorService } from './simulator.service';
+
+@Controller('api/admin/simulator')
+@UseGuards(AdminGuard)
+export class SimulatorController {
+  constructor(private readonly simulatorService: SimulatorService) {}
+
+  @Get()
+  getStatus() {
+    return this.simulatorService.getStatus();
+  }
+
+  @Put(':coin')
+  setModel(@Param() { coin }: CoinParams, @Body() body: SetModelBody) {
+    return this.simulatorService.setModel(coin, body);
+  }
+}
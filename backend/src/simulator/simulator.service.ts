@@ -0,0 +1,272 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BlockchainService } from '../blockchain/blockchain.service';
+import { parseCoin } from '../blockchain/coins';
+import { COINS } from '../blockchain/contract.constants';
+import { ORACLE_ABI } from '../blockchain/oracle.abi';
+import { EnvironmentVariables } from '../config/env.validation';
+import { SetModelBody } from './dto/simulator.dto';
+import {
+  createRandom,
+  GbmModel,
+  parsePriceCsv,
+  PriceModel,
+  PriceModelConfig,
+  RandomWalkModel,
+  ReplayModel,
+  ScenarioModel,
+} from './price-models';
+
+interface CoinSimulation {
+  oracle: ethers.Contract;
+  decimals: number;
+  price: number;
+  config: PriceModelConfig;
+  model: PriceModel;
+  lastUpdate: string | null;
+  lastError: string | null;
+}
+
+/**
+ * Drives MockPriceOracle.setPrice for every coin from a pluggable price
+ * model, replacing scripts/update-mock-prices.js. Models can be switched
+ * per coin at runtime through the admin endpoints.
+ */
+@Injectable()
+export class SimulatorService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(SimulatorService.name);
+  private readonly interval: number;
+  private readonly dataDir: string;
+  private readonly simulations = new Map<number, CoinSimulation>();
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly blockchainService: BlockchainService,
+    private readonly configService: ConfigService<EnvironmentVariables, true>,
+  ) {
+    this.interval = this.configService.get('SIMULATOR_INTERVAL_MS', {
+      infer: true,
+    });
+    this.dataDir = this.configService.get('SIMULATOR_DATA_DIR', {
+      infer: true,
+    });
+  }
+
+  async onApplicationBootstrap() {
+    if (!this.configService.get('SIMULATOR_ENABLED', { infer: true })) {
+      return;
+    }
+
+    const privateKey = this.configService.get('SIMULATOR_PRIVATE_KEY', {
+      infer: true,
+    });
+    if (!privateKey) {
+      this.logger.warn('SIMULATOR_PRIVATE_KEY not set, simulator disabled');
+      return;
+    }
+
+    const signer = new ethers.NonceManager(
+      new ethers.Wallet(privateKey, this.blockchainService.provider),
+    );
+    const defaults: PriceModelConfig = {
+      model: this.configService.get('SIMULATOR_MODEL', { infer: true }),
+      seed: this.configService.get('SIMULATOR_SEED', { infer: true }),
+    };
+
+    try {
+      for (let coinEnum = 0; coinEnum < COINS.length; coinEnum++) {
+        const address: string =
+          await this.blockchainService.contract.priceOracles(coinEnum);
+        const oracle = new ethers.Contract(address, ORACLE_ABI, signer);
+        const decimals = Number(await oracle.decimals());
+        const [, answer] = await oracle.latestRoundData();
+        // Offset a configured seed per coin so coins don't move in lockstep
+        const config = this.normalizeConfig({
+          ...defaults,
+          seed: defaults.seed === undefined ? undefined : defaults.seed + coinEnum,
+        });
+
+        this.simulations.set(coinEnum, {
+          oracle,
+          decimals,
+          price: Number(ethers.formatUnits(answer, decimals)),
+          config,
+          model: this.createModel(config),
+          lastUpdate: null,
+          lastError: null,
+        });
+      }
+    } catch (error) {
+      this.logger.error(`Failed to start simulator: ${error.message}`);
+      return;
+    }
+
+    this.running = true;
+    this.schedule();
+  }
+
+  onModuleDestroy() {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getStatus() {
+    return {
+      enabled: this.running,
+      intervalMs: this.interval,
+      coins: COINS.map((coin, coinEnum) => {
+        const simulation = this.simulations.get(coinEnum);
+        return {
+          coin,
+          oracle: simulation ? (simulation.oracle.target as string) : null,
+          price: simulation?.price ?? null,
+          config: simulation?.config ?? null,
+          lastUpdate: simulation?.lastUpdate ?? null,
+          lastError: simulation?.lastError ?? null,
+        };
+      }),
+    };
+  }
+
+  /**
+   * Switch the price model of a coin. The path continues from the last
+   * price pushed to the oracle.
+   */
+  setModel(coin: string, config: SetModelBody) {
+    const coinEnum = parseCoin(coin);
+    const simulation = this.simulations.get(coinEnum);
+    if (!simulation) {
+      throw new BadRequestException('Simulator is not running');
+    }
+
+    const normalized = this.normalizeConfig(config);
+    simulation.model = this.createModel(normalized);
+    simulation.config = normalized;
+
+    this.logger.log(
+      `${COINS[coinEnum]} price model set to ${normalized.model}`,
+    );
+    return this.getStatus().coins[coinEnum];
+  }
+
+  private schedule() {
+    if (!this.running) return;
+    this.timer = setTimeout(async () => {
+      await this.tick();
+      this.schedule();
+    }, this.interval);
+  }
+
+  private async tick() {
+    for (const [coinEnum, simulation] of this.simulations) {
+      const price = simulation.model.next(simulation.price);
+
+      try {
+        const tx = await simulation.oracle.setPrice(
+          ethers.parseUnits(
+            price.toFixed(simulation.decimals),
+            simulation.decimals,
+          ),
+        );
+        await tx.wait();
+
+        simulation.price = price;
+        simulation.lastUpdate = new Date().toISOString();
+        simulation.lastError = null;
+      } catch (error) {
+        simulation.lastError = error.shortMessage ?? error.message;
+        this.logger.warn(
+          `Failed to update ${COINS[coinEnum]} price: ${simulation.lastError}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Fill in the defaults of a model config, including a seed so the
+   * effective path can be reproduced later from getStatus()
+   */
+  private normalizeConfig(config: PriceModelConfig): PriceModelConfig {
+    switch (config.model) {
+      case 'random-walk':
+        return {
+          model: config.model,
+          seed: config.seed ?? this.randomSeed(),
+          step: config.step ?? 3,
+        };
+      case 'gbm':
+        return {
+          model: config.model,
+          seed: config.seed ?? this.randomSeed(),
+          volatility: config.volatility ?? 0.8,
+          drift: config.drift ?? 0,
+        };
+      case 'scenario':
+        return {
+          model: config.model,
+          scenario: config.scenario,
+          ratePercent: config.ratePercent ?? 0.1,
+        };
+      case 'replay':
+        return { model: config.model, file: config.file, loop: !!config.loop };
+    }
+  }
+
+  private createModel(config: PriceModelConfig): PriceModel {
+    switch (config.model) {
+      case 'random-walk':
+        return new RandomWalkModel(config.step, createRandom(config.seed));
+      case 'gbm':
+        return new GbmModel(
+          config.volatility,
+          config.drift,
+          this.interval / 1000,
+          createRandom(config.seed),
+        );
+      case 'scenario':
+        return new ScenarioModel(config.scenario, config.ratePercent);
+      case 'replay':
+        return new ReplayModel(this.loadPrices(config.file), config.loop);
+    }
+  }
+
+  /**
+   * Read a CSV from SIMULATOR_DATA_DIR; paths outside it are rejected
+   */
+  private loadPrices(file: string): number[] {
+    const root = path.resolve(this.dataDir);
+    const filePath = path.resolve(root, file);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new BadRequestException(`Invalid price file: ${file}`);
+    }
+
+    let prices: number[];
+    try {
+      prices = parsePriceCsv(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      throw new BadRequestException(`Could not read price file: ${file}`);
+    }
+
+    if (prices.length === 0) {
+      throw new BadRequestException(`No prices found in ${file}`);
+    }
+    return prices;
+  }
+
+  private randomSeed(): number {
+    return Math.floor(Math.random() * 2 ** 32);
+  }
+}
@@ -0,0 +1,12 @@
+import { Controller, Get } from '@nestjs/common';
+import { SolvencyService } from './solvency.service';
+
+@Controller('api/prediction')
+export class SolvencyController {
+  constructor(private readonly solvencyService: SolvencyService) {}
+
+  @Get('solvency')
+  getStatus() {
+    return this.solvencyService.getStatus();
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { AlertsModule } from '../alerts/alerts.module';
+import { IndexerModule } from '../indexer/indexer.module';
+import { SolvencyController } from './solvency.controller';
+import { SolvencyService } from './solvency.service';
+
+@Module({
+  imports: [AlertsModule, IndexerModule],
+  controllers: [SolvencyController],
+  providers: [SolvencyService],
+  exports: [SolvencyService],
+})
+export class SolvencyModule {}
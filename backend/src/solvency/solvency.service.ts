@@ -0,0 +1,265 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ethers } from 'ethers';
+import { Alert, AlertsService } from '../alerts/alerts.service';
+import { BlockchainService } from '../blockchain/blockchain.service';
+import { COINS, RoundStatus } from '../blockchain/contract.constants';
+import { calculateClaim, getBetResult } from '../blockchain/round-math';
+import { EnvironmentVariables } from '../config/env.validation';
+import { IndexerStore } from '../indexer/indexer.store';
+
+// Wei amounts owed to bettors, or locked in the contract for good
+interface Liabilities {
+  // Payouts (fee included) of winning bets not claimed yet
+  unclaimedPayouts: bigint;
+  // Pools of open and locked rounds, paid out once they close
+  unsettledPools: bigint;
+  // Pools of tie rounds, where claim() marks bets claimed and refunds nothing
+  tieRounds: bigint;
+  // Losing stakes of rounds where nobody backed the winning side
+  noWinnerRounds: bigint;
+}
+
+/**
+ * Periodically compares the contract's balance with what it owes, using
+ * the indexed rounds and bets. Alerts go to the alert sinks: one when the
+ * balance no longer covers the liabilities, and one when the funds trapped
+ * in tie and no-winner rounds grow.
+ */
+@Injectable()
+export class SolvencyService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(SolvencyService.name);
+  private readonly interval: number;
+  private readonly trappedThreshold: bigint;
+  private report: ReturnType<SolvencyService['formatReport']> | null = null;
+  private trapped: bigint | null = null;
+  private activeAlerts: Alert[] = [];
+  private lastError: string | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly blockchainService: BlockchainService,
+    private readonly store: IndexerStore,
+    private readonly alertsService: AlertsService,
+    private readonly configService: ConfigService<EnvironmentVariables, true>,
+  ) {
+    this.interval = this.configService.get('SOLVENCY_INTERVAL_MS', {
+      infer: true,
+    });
+    this.trappedThreshold = ethers.parseEther(
+      this.configService.get('SOLVENCY_TRAPPED_ALERT_THRESHOLD', {
+        infer: true,
+      }),
+    );
+  }
+
+  onApplicationBootstrap() {
+    if (!this.configService.get('SOLVENCY_ENABLED', { infer: true })) {
+      return;
+    }
+    this.running = true;
+    // First check right away rather than after a full interval
+    this.check().finally(() => this.schedule());
+  }
+
+  onModuleDestroy() {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getStatus() {
+    return {
+      enabled: this.running,
+      intervalMs: this.interval,
+      lastError: this.lastError,
+      report: this.report,
+      alerts: this.activeAlerts,
+      recentAlerts: this.alertsService.getRecentAlerts('solvency'),
+    };
+  }
+
+  private schedule() {
+    if (!this.running) return;
+    this.timer = setTimeout(async () => {
+      await this.check();
+      this.schedule();
+    }, this.interval);
+  }
+
+  private async check() {
+    // The balance is read at the indexer's checkpoint so both sides of the
+    // comparison describe the same block
+    const blockNumber = this.store.getCheckpoint();
+    if (blockNumber === null) {
+      this.lastError = 'Indexer has not synced any block yet';
+      return;
+    }
+
+    let balance: bigint;
+    try {
+      balance = await this.blockchainService.provider.getBalance(
+        this.blockchainService.contractAddress,
+        blockNumber,
+      );
+    } catch (error) {
+      this.lastError = error.shortMessage ?? error.message;
+      this.logger.warn(`Could not read contract balance: ${this.lastError}`);
+      return;
+    }
+
+    const coins = COINS.map((_, coin) => this.getLiabilities(coin));
+    const total = coins.reduce((sum, liabilities) => ({
+      unclaimedPayouts: sum.unclaimedPayouts + liabilities.unclaimedPayouts,
+      unsettledPools: sum.unsettledPools + liabilities.unsettledPools,
+      tieRounds: sum.tieRounds + liabilities.tieRounds,
+      noWinnerRounds: sum.noWinnerRounds + liabilities.noWinnerRounds,
+    }));
+    const liabilities = this.sum(total);
+    const trapped = total.tieRounds + total.noWinnerRounds;
+
+    const at = new Date().toISOString();
+    const alerts: Alert[] = [];
+    if (balance < liabilities) {
+      alerts.push(
+        await this.alertsService.sendOnce(
+          {
+            source: 'solvency',
+            type: 'UNDER_COLLATERALISED',
+            severity: 'critical',
+            coin: null,
+            message: `Contract balance ${ethers.formatEther(balance)} ETH is below liabilities of ${ethers.formatEther(liabilities)} ETH at block ${blockNumber}`,
+            details: {
+              blockNumber,
+              balance: ethers.formatEther(balance),
+              liabilities: ethers.formatEther(liabilities),
+            },
+            at,
+          },
+          this.activeAlerts,
+        ),
+      );
+    }
+    const growth = this.trapped === null ? 0n : trapped - this.trapped;
+    if (growth > this.trappedThreshold) {
+      const alert: Alert = {
+        source: 'solvency',
+        type: 'TRAPPED_FUNDS_GROWING',
+        severity: 'warning',
+        coin: null,
+        message: `Trapped funds grew by ${ethers.formatEther(growth)} ETH to ${ethers.formatEther(trapped)} ETH at block ${blockNumber}`,
+        details: {
+          blockNumber,
+          growth: ethers.formatEther(growth),
+          trapped: ethers.formatEther(trapped),
+        },
+        at,
+      };
+      await this.alertsService.send(alert);
+      alerts.push(alert);
+    }
+
+    this.trapped = trapped;
+    this.activeAlerts = alerts;
+    this.lastError = null;
+    this.report = this.formatReport(blockNumber, balance, total, coins);
+  }
+
+  /**
+   * Wei owed or trapped for one coin according to the indexer
+   */
+  private getLiabilities(coin: number): Liabilities {
+    const liabilities: Liabilities = {
+      unclaimedPayouts: 0n,
+      unsettledPools: 0n,
+      tieRounds: 0n,
+      noWinnerRounds: 0n,
+    };
+
+    for (const round of this.store.iterateRounds(coin)) {
+      const totalBullAmount = BigInt(round.totalBullAmount);
+      const totalBearAmount = BigInt(round.totalBearAmount);
+      const totalAmount = totalBullAmount + totalBearAmount;
+
+      if (round.status !== RoundStatus.Closed) {
+        liabilities.unsettledPools += totalAmount;
+      } else if (round.outcome === null) {
+        // Closed before the indexer saw it lock, settlement unknown
+        continue;
+      } else if (round.outcome === 'Tie') {
+        liabilities.tieRounds += totalAmount;
+      } else if (
+        (round.outcome === 'Bull' ? totalBullAmount : totalBearAmount) === 0n
+      ) {
+        liabilities.noWinnerRounds += totalAmount;
+      }
+    }
+
+    for (const { bet, round } of this.store.getBets({ coin })) {
+      if (bet.claimed) continue;
+      if (getBetResult(round?.outcome ?? null, bet.position) !== 'won') {
+        continue;
+      }
+      // The fee leaves the contract too, on its way to the treasury
+      liabilities.unclaimedPayouts += calculateClaim(
+        BigInt(round.totalBullAmount),
+        BigInt(round.totalBearAmount),
+        bet.position,
+        BigInt(bet.amount),
+      ).payout;
+    }
+
+    return liabilities;
+  }
+
+  private formatReport(
+    blockNumber: number,
+    balance: bigint,
+    total: Liabilities,
+    coins: Liabilities[],
+  ) {
+    const liabilities = this.sum(total);
+    const format = (amounts: Liabilities) => ({
+      unclaimedPayouts: ethers.formatEther(amounts.unclaimedPayouts),
+      unsettledPools: ethers.formatEther(amounts.unsettledPools),
+      tieRounds: ethers.formatEther(amounts.tieRounds),
+      noWinnerRounds: ethers.formatEther(amounts.noWinnerRounds),
+      total: ethers.formatEther(this.sum(amounts)),
+    });
+
+    return {
+      checkedAt: new Date().toISOString(),
+      blockNumber,
+      balance: ethers.formatEther(balance),
+      liabilities: format(total),
+      trapped: ethers.formatEther(total.tieRounds + total.noWinnerRounds),
+      // Rounding dust from integer payouts keeps this slightly positive
+      surplus: ethers.formatEther(balance - liabilities),
+      collateralRatio:
+        liabilities === 0n
+          ? null
+          : Number((balance * 10n ** 6n) / liabilities) / 1e6,
+      coins: coins.map((amounts, coin) => ({
+        coin: COINS[coin],
+        ...format(amounts),
+      })),
+    };
+  }
+
+  private sum(amounts: Liabilities): bigint {
+    return (
+      amounts.unclaimedPayouts +
+      amounts.unsettledPools +
+      amounts.tieRounds +
+      amounts.noWinnerRounds
+    );
+  }
+}
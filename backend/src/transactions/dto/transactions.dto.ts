@@ -0,0 +1,33 @@
+import {
+  IsAddress,
+  IsCoin,
+  IsEtherAmount,
+  IsPosition,
+  IsRoundId,
+} from '../../prediction/dto/prediction.dto';
+
+export class BetTransactionBody {
+  // Sender, used for the gas estimate and nonce
+  @IsAddress('from')
+  from: string;
+
+  @IsCoin()
+  coin: string;
+
+  @IsPosition()
+  position: 'bull' | 'bear';
+
+  @IsEtherAmount()
+  amount: string;
+}
+
+export class ClaimTransactionBody {
+  @IsAddress('from')
+  from: string;
+
+  @IsCoin()
+  coin: string;
+
+  @IsRoundId()
+  roundId: number;
+}
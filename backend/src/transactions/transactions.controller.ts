@@ -0,0 +1,29 @@
+import { Body, Controller, HttpCode, HttpStatus, Post } from '@nestjs/common';
+import {
+  BetTransactionBody,
+  ClaimTransactionBody,
+} from './dto/transactions.dto';
+import { TransactionsService } from './transactions.service';
+
+@Controller('api/prediction')
+export class TransactionsController {
+  constructor(private readonly transactionsService: TransactionsService) {}
+
+  @Post('tx/bet')
+  @HttpCode(HttpStatus.OK)
+  buildBet(@Body() body: BetTransactionBody) {
+    return this.transactionsService.buildBet(body);
+  }
+
+  @Post('tx/bet/simulate')
+  @HttpCode(HttpStatus.OK)
+  simulateBet(@Body() body: BetTransactionBody) {
+    return this.transactionsService.simulateBet(body);
+  }
+
+  @Post('tx/claim')
+  @HttpCode(HttpStatus.OK)
+  buildClaim(@Body() body: ClaimTransactionBody) {
+    return this.transactionsService.buildClaim(body);
+  }
+}
@@ -0,0 +1,163 @@
+import { Injectable } from '@nestjs/common';
+import { ethers } from 'ethers';
+import { BlockchainService } from '../blockchain/blockchain.service';
+import { parseCoin } from '../blockchain/coins';
+import { Position } from '../blockchain/contract.constants';
+import {
+  isContractRevert,
+  toPredictionError,
+} from '../common/errors/contract-errors';
+import { ErrorCode, PredictionError } from '../common/errors/prediction.errors';
+import { BetTransactionBody, ClaimTransactionBody } from './dto/transactions.dto';
+
+// Headroom added on top of the gas estimate, in percent
+const GAS_LIMIT_MARGIN = 20n;
+
+/**
+ * Builds unsigned transactions for the market contract, so clients can
+ * sign them without the contract ABI
+ */
+@Injectable()
+export class TransactionsService {
+  constructor(private readonly blockchainService: BlockchainService) {}
+
+  /**
+   * Target, calldata, value and chain of a contract call
+   */
+  async encode(method: string, args: unknown[], value = 0n) {
+    const { contract, contractAddress, provider } = this.blockchainService;
+    const { chainId } = await provider.getNetwork();
+
+    return {
+      to: contractAddress,
+      data: contract.interface.encodeFunctionData(method, args),
+      value: value.toString(),
+      chainId: chainId.toString(),
+    };
+  }
+
+  buildBet({ from, coin, position, amount }: BetTransactionBody) {
+    return this.populate(
+      from,
+      'bet',
+      [parseCoin(coin), position === 'bull' ? Position.Bull : Position.Bear],
+      ethers.parseEther(amount),
+    );
+  }
+
+  /**
+   * Run bet() as a static call from the sender at the latest block and
+   * report whether it would succeed, with the revert reason if not
+   */
+  async simulateBet({ from, coin, position, amount }: BetTransactionBody) {
+    const { contract, provider } = this.blockchainService;
+    const sender = ethers.getAddress(from);
+    const coinEnum = parseCoin(coin);
+    const value = ethers.parseEther(amount);
+
+    try {
+      const block = await provider.getBlock('latest');
+      const blockTag = block.number;
+      const [balance, roundId, round] = await Promise.all([
+        provider.getBalance(sender, blockTag),
+        contract.currentRound(coinEnum, { blockTag }),
+        contract.getCurrentRound(coinEnum, { blockTag }),
+      ]);
+
+      let failure: { code: ErrorCode; reason: string } | null = null;
+      // Nodes refuse the call outright rather than reverting, so the
+      // balance is checked first (gas is not included)
+      if (balance < value) {
+        failure = {
+          code: ErrorCode.InsufficientBalance,
+          reason: 'Insufficient balance',
+        };
+      } else {
+        try {
+          await contract.bet.staticCall(
+            coinEnum,
+            position === 'bull' ? Position.Bull : Position.Bear,
+            { from: sender, value, blockTag },
+          );
+        } catch (error) {
+          if (!isContractRevert(error)) throw error;
+          const mapped = toPredictionError(error, 'bet');
+          failure = {
+            code:
+              mapped instanceof PredictionError
+                ? mapped.code
+                : ErrorCode.ContractReverted,
+            reason: mapped.message,
+          };
+        }
+      }
+
+      // The next block is mined no earlier than now, and local chains can
+      // run ahead of the wall clock
+      const now = Math.max(block.timestamp, Math.floor(Date.now() / 1000));
+      const lockTimestamp = Number(round.lockTimestamp);
+
+      return {
+        wouldSucceed: failure === null,
+        code: failure?.code ?? null,
+        reason: failure?.reason ?? null,
+        blockNumber: block.number,
+        roundId: roundId.toString(),
+        lockTimestamp: lockTimestamp.toString(),
+        secondsUntilLock: Math.max(0, lockTimestamp - now),
+        balance: ethers.formatEther(balance),
+      };
+    } catch (error) {
+      throw toPredictionError(error, 'Failed to simulate bet');
+    }
+  }
+
+  buildClaim({ from, coin, roundId }: ClaimTransactionBody) {
+    return this.populate(from, 'claim', [parseCoin(coin), roundId]);
+  }
+
+  /**
+   * Encoded call plus nonce, gas and fee fields for the sender. The gas
+   * estimate runs the call, so a transaction that would revert is rejected
+   * with the contract's reason.
+   */
+  private async populate(
+    from: string,
+    method: string,
+    args: unknown[],
+    value = 0n,
+  ) {
+    const { contract, provider } = this.blockchainService;
+    const sender = ethers.getAddress(from);
+
+    try {
+      const [transaction, gasEstimate, nonce, feeData] = await Promise.all([
+        this.encode(method, args, value),
+        contract[method].estimateGas(...args, { from: sender, value }),
+        provider.getTransactionCount(sender, 'pending'),
+        provider.getFeeData(),
+      ]);
+
+      // Chains without EIP-1559 only report a legacy gas price
+      const fees =
+        feeData.maxFeePerGas !== null
+          ? {
+              type: 2,
+              maxFeePerGas: feeData.maxFeePerGas.toString(),
+              maxPriorityFeePerGas: feeData.maxPriorityFeePerGas.toString(),
+            }
+          : { type: 0, gasPrice: feeData.gasPrice.toString() };
+
+      return {
+        from: sender,
+        ...transaction,
+        nonce,
+        gasEstimate: gasEstimate.toString(),
+        gasLimit: ((gasEstimate * (100n + GAS_LIMIT_MARGIN)) / 100n).toString(),
+        ...fees,
+      };
+    } catch (error) {
+      throw toPredictionError(error, `Failed to build ${method} transaction`);
+    }
+  }
+}
@@ -0,0 +1,18 @@
+import { IsOptional } from 'class-validator';
+import { IsCoin, IsTimestamp } from '../../prediction/dto/prediction.dto';
+
+export class TreasuryReportQuery {
+  // All coins when omitted
+  @IsOptional()
+  @IsCoin()
+  coin?: string;
+
+  // Bounds on the time fees were collected at (the claim's block)
+  @IsOptional()
+  @IsTimestamp('from')
+  from?: number;
+
+  @IsOptional()
+  @IsTimestamp('to')
+  to?: number;
+}
@@ -0,0 +1,13 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { TreasuryReportQuery } from './dto/treasury.dto';
+import { TreasuryService } from './treasury.service';
+
+@Controller('api/prediction')
+export class TreasuryController {
+  constructor(private readonly treasuryService: TreasuryService) {}
+
+  @Get('treasury/report')
+  getReport(@Query() query: TreasuryReportQuery) {
+    return this.treasuryService.getReport(query);
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { IndexerModule } from '../indexer/indexer.module';
+import { TreasuryController } from './treasury.controller';
+import { TreasuryService } from './treasury.service';
+
+@Module({
+  imports: [IndexerModule],
+  controllers: [TreasuryController],
+  providers: [TreasuryService],
+})
+export class TreasuryModule {}
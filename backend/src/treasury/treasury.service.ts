@@ -0,0 +1,193 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ethers } from 'ethers';
+import { BlockchainService } from '../blockchain/blockchain.service';
+import { parseCoin } from '../blockchain/coins';
+import {
+  BASIS_POINTS,
+  COINS,
+  TREASURY_FEE,
+} from '../blockchain/contract.constants';
+import { calculateClaim, getBetResult } from '../blockchain/round-math';
+import { toPredictionError } from '../common/errors/contract-errors';
+import { EnvironmentVariables } from '../config/env.validation';
+import { IndexerStore } from '../indexer/indexer.store';
+import { TreasuryReportQuery } from './dto/treasury.dto';
+
+interface FeeTotals {
+  collected: bigint;
+  claims: number;
+}
+
+/**
+ * Fee accounting from the indexed bets. claim() sends the fee of every
+ * winning bet to the treasury, so collected fees come from claimed winning
+ * bets and pending fees from winning bets nobody has claimed yet.
+ */
+@Injectable()
+export class TreasuryService {
+  private readonly logger = new Logger(TreasuryService.name);
+  private readonly startBlock: number;
+  private treasury: Promise<string> | null = null;
+
+  constructor(
+    private readonly blockchainService: BlockchainService,
+    private readonly store: IndexerStore,
+    private readonly configService: ConfigService<EnvironmentVariables, true>,
+  ) {
+    this.startBlock = this.configService.get('INDEXER_START_BLOCK', {
+      infer: true,
+    });
+  }
+
+  /**
+   * Collected fees per coin and per UTC day within the query range, fees
+   * pending in unclaimed winning bets as of now, and a reconciliation of
+   * every indexed fee against the treasury's balance
+   */
+  async getReport(query: TreasuryReportQuery) {
+    const coin = query.coin === undefined ? undefined : parseCoin(query.coin);
+    const treasury = await this.getTreasury();
+
+    const coins = COINS.map(() => ({
+      collected: 0n,
+      claims: 0,
+      pending: 0n,
+      pendingClaims: 0,
+    }));
+    const days = new Map<string, FeeTotals & { date: string; coin: number }>();
+    let indexedFees = 0n;
+
+    for (const { bet, round } of this.store.getBets({ order: 'asc' })) {
+      if (getBetResult(round?.outcome ?? null, bet.position) !== 'won') {
+        continue;
+      }
+      const { fee } = calculateClaim(
+        BigInt(round.totalBullAmount),
+        BigInt(round.totalBearAmount),
+        bet.position,
+        BigInt(bet.amount),
+      );
+      if (bet.claimed) indexedFees += fee;
+      if (coin !== undefined && bet.coin !== coin) continue;
+
+      const totals = coins[bet.coin];
+      if (!bet.claimed) {
+        totals.pending += fee;
+        totals.pendingClaims++;
+        continue;
+      }
+      if (
+        (query.from !== undefined && bet.claimedAt < query.from) ||
+        (query.to !== undefined && bet.claimedAt > query.to)
+      ) {
+        continue;
+      }
+
+      totals.collected += fee;
+      totals.claims++;
+
+      const date = new Date(bet.claimedAt * 1000).toISOString().slice(0, 10);
+      const key = `${date}:${bet.coin}`;
+      let day = days.get(key);
+      if (!day) {
+        day = { date, coin: bet.coin, collected: 0n, claims: 0 };
+        days.set(key, day);
+      }
+      day.collected += fee;
+      day.claims++;
+    }
+
+    const selected = coins
+      .map((totals, index) => ({ ...totals, index }))
+      .filter(({ index }) => coin === undefined || index === coin);
+
+    return {
+      treasury,
+      feeRate: Number(TREASURY_FEE) / Number(BASIS_POINTS),
+      from: query.from ?? null,
+      to: query.to ?? null,
+      totals: {
+        collected: ethers.formatEther(
+          selected.reduce((sum, { collected }) => sum + collected, 0n),
+        ),
+        pending: ethers.formatEther(
+          selected.reduce((sum, { pending }) => sum + pending, 0n),
+        ),
+      },
+      coins: selected.map((totals) => ({
+        coin: COINS[totals.index],
+        collected: ethers.formatEther(totals.collected),
+        claims: totals.claims,
+        pending: ethers.formatEther(totals.pending),
+        pendingClaims: totals.pendingClaims,
+      })),
+      days: [...days.values()]
+        .sort((a, b) => a.date.localeCompare(b.date) || a.coin - b.coin)
+        .map((day) => ({
+          date: day.date,
+          coin: COINS[day.coin],
+          collected: ethers.formatEther(day.collected),
+          claims: day.claims,
+        })),
+      reconciliation: await this.reconcile(treasury, indexedFees),
+    };
+  }
+
+  /**
+   * Compare the fees of every indexed claim with the change in the
+   * treasury's balance over the indexed blocks. Anything else the treasury
+   * sends or receives, gas included, shows up as otherFlows.
+   */
+  private async reconcile(treasury: string, collectedFees: bigint) {
+    const toBlock = this.store.getCheckpoint();
+    if (toBlock === null) return null;
+    const fromBlock = Math.max(this.startBlock - 1, 0);
+
+    const reconciliation = {
+      fromBlock,
+      toBlock,
+      collectedFees: ethers.formatEther(collectedFees),
+      balanceChange: null as string | null,
+      otherFlows: null as string | null,
+      matched: null as boolean | null,
+      error: null as string | null,
+    };
+
+    try {
+      const { provider } = this.blockchainService;
+      const [before, after] = await Promise.all([
+        provider.getBalance(treasury, fromBlock),
+        provider.getBalance(treasury, toBlock),
+      ]);
+      const balanceChange = after - before;
+
+      reconciliation.balanceChange = ethers.formatEther(balanceChange);
+      reconciliation.otherFlows = ethers.formatEther(
+        balanceChange - collectedFees,
+      );
+      reconciliation.matched = balanceChange === collectedFees;
+    } catch (error) {
+      // Historical balances need an archive node; the report stands without
+      reconciliation.error = error.shortMessage ?? error.message;
+      this.logger.warn(
+        `Could not read treasury balances: ${reconciliation.error}`,
+      );
+    }
+    return reconciliation;
+  }
+
+  // The contract has no setter for treasury, so it is read once
+  private getTreasury(): Promise<string> {
+    if (!this.treasury) {
+      this.treasury = this.blockchainService.contract
+        .treasury()
+        .then((address: string) => ethers.getAddress(address))
+        .catch((error) => {
+          this.treasury = null;
+          throw toPredictionError(error, 'Failed to read treasury');
+        });
+    }
+    return this.treasury;
+  }
+}
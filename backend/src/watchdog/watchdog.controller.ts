@@ -0,0 +1,12 @@
+import { Controller, Get } from '@nestjs/common';
+import { WatchdogService } from './watchdog.service';
+
+@Controller('api/prediction')
+export class WatchdogController {
+  constructor(private readonly watchdogService: WatchdogService) {}
+
+  @Get('stuck')
+  getStuckRounds() {
+    return this.watchdogService.getStuckRounds();
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { AlertsModule } from '../alerts/alerts.module';
+import { WatchdogController } from './watchdog.controller';
+import { WatchdogService } from './watchdog.service';
+
+@Module({
+  imports: [AlertsModule],
+  controllers: [WatchdogController],
+  providers: [WatchdogService],
+  exports: [WatchdogService],
+})
+export class WatchdogModule {}
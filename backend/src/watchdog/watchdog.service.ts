@@ -0,0 +1,209 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BlockchainService } from '../blockchain/blockchain.service';
+import { COINS, RoundStatus } from '../blockchain/contract.constants';
+import { getUnclosedRounds } from '../blockchain/round-scan';
+import { AlertsService } from '../alerts/alerts.service';
+import { toPredictionError } from '../common/errors/contract-errors';
+import { EnvironmentVariables } from '../config/env.validation';
+
+type StuckReason = 'LOCK_OVERDUE' | 'CLOSE_OVERDUE' | 'NEXT_ROUND_MISSING';
+
+export interface StuckRound {
+  reason: StuckReason;
+  roundId: string;
+  // Seconds past lockTimestamp or closeTimestamp, grace period included
+  overdueSeconds: number;
+  since: string | null;
+}
+
+const DESCRIPTIONS: Record<StuckReason, string> = {
+  LOCK_OVERDUE: 'is still open past lockTimestamp',
+  CLOSE_OVERDUE: 'is still locked past closeTimestamp',
+  NEXT_ROUND_MISSING: 'closed but createNextRound was not called',
+};
+
+/**
+ * Flags coins whose rounds stopped moving, using the conditions
+ * checkUpkeep evaluates plus a grace period: an open round past
+ * lockTimestamp, a locked round past closeTimestamp and a closed round
+ * without a next one. Rounds becoming stuck or recovering are sent to the
+ * alert sinks.
+ */
+@Injectable()
+export class WatchdogService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(WatchdogService.name);
+  private readonly interval: number;
+  private readonly grace: number;
+  // When each stuck round was first seen, by coin, reason and roundId
+  private readonly stuckSince = new Map<string, string>();
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly blockchainService: BlockchainService,
+    private readonly alertsService: AlertsService,
+    private readonly configService: ConfigService<EnvironmentVariables, true>,
+  ) {
+    this.interval = this.configService.get('WATCHDOG_INTERVAL_MS', {
+      infer: true,
+    });
+    this.grace = this.configService.get('WATCHDOG_GRACE_SECONDS', {
+      infer: true,
+    });
+  }
+
+  onApplicationBootstrap() {
+    if (!this.configService.get('WATCHDOG_ENABLED', { infer: true })) {
+      return;
+    }
+    this.running = true;
+    this.check().finally(() => this.schedule());
+  }
+
+  onModuleDestroy() {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async getStuckRounds() {
+    try {
+      return await this.inspect();
+    } catch (error) {
+      throw toPredictionError(error, 'Failed to check rounds');
+    }
+  }
+
+  private schedule() {
+    if (!this.running) return;
+    this.timer = setTimeout(async () => {
+      await this.check();
+      this.schedule();
+    }, this.interval);
+  }
+
+  private async check() {
+    let result: Awaited<ReturnType<WatchdogService['inspect']>>;
+    try {
+      result = await this.inspect();
+    } catch (error) {
+      this.logger.warn(`Could not check rounds: ${error.message}`);
+      return;
+    }
+
+    const seen = new Set<string>();
+    for (const { coin, stuck } of result.coins) {
+      for (const round of stuck) {
+        const key = this.key(coin, round.reason, round.roundId);
+        seen.add(key);
+        if (this.stuckSince.has(key)) continue;
+
+        const since = new Date().toISOString();
+        this.stuckSince.set(key, since);
+        await this.alertsService.send({
+          source: 'watchdog',
+          type: 'ROUND_STUCK',
+          severity: 'critical',
+          coin,
+          message: `${coin} round ${round.roundId} ${DESCRIPTIONS[round.reason]} (${round.overdueSeconds}s overdue)`,
+          details: { ...round, since, blockNumber: result.blockNumber },
+          at: since,
+        });
+      }
+    }
+
+    for (const [key, since] of this.stuckSince) {
+      if (seen.has(key)) continue;
+      this.stuckSince.delete(key);
+
+      const [coin, reason, roundId] = key.split(':');
+      await this.alertsService.send({
+        source: 'watchdog',
+        type: 'ROUND_RECOVERED',
+        severity: 'info',
+        coin,
+        message: `${coin} round ${roundId} is moving again (${reason} since ${since})`,
+        details: { reason, roundId, since, blockNumber: result.blockNumber },
+        at: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Stuck rounds of every coin at the latest block
+   */
+  private async inspect() {
+    const { provider, contract } = this.blockchainService;
+    const block = await provider.getBlock('latest');
+    const blockTag = block.number;
+    // A stalled chain mines no blocks, so the latest block's timestamp
+    // stops moving exactly when rounds get stuck
+    const now = Math.max(block.timestamp, Math.floor(Date.now() / 1000));
+
+    const coins = [];
+    for (let coinEnum = 0; coinEnum < COINS.length; coinEnum++) {
+      const getRound = (roundId: bigint) =>
+        contract.getRound(coinEnum, roundId, { blockTag });
+      const roundId: bigint = await contract.currentRound(coinEnum, {
+        blockTag,
+      });
+      const stuck: StuckRound[] = [];
+      const flag = (reason: StuckReason, id: bigint, deadline: bigint) => {
+        const overdueSeconds = now - Number(deadline);
+        if (overdueSeconds <= this.grace) return;
+        const key = this.key(COINS[coinEnum], reason, id.toString());
+        stuck.push({
+          reason,
+          roundId: id.toString(),
+          overdueSeconds,
+          since: this.stuckSince.get(key) ?? null,
+        });
+      };
+
+      const round = roundId > 0n ? await getRound(roundId) : null;
+      if (round) {
+        const status = Number(round.status);
+        if (status === RoundStatus.Open) {
+          flag('LOCK_OVERDUE', roundId, round.lockTimestamp);
+        } else if (status === RoundStatus.Closed) {
+          if ((await getRound(roundId + 1n)).roundId === 0n) {
+            flag('NEXT_ROUND_MISSING', roundId, round.closeTimestamp);
+          }
+        }
+
+        const unclosed = await getUnclosedRounds(roundId, async (id) =>
+          id === roundId ? round : getRound(id),
+        );
+        for (const { roundId: id, round: unclosedRound } of unclosed) {
+          flag('CLOSE_OVERDUE', id, unclosedRound.closeTimestamp);
+        }
+      }
+
+      coins.push({
+        coin: COINS[coinEnum],
+        currentRoundId: roundId.toString(),
+        stuck,
+      });
+    }
+
+    return {
+      blockNumber: block.number,
+      blockTimestamp: block.timestamp,
+      graceSeconds: this.grace,
+      watchdog: { enabled: this.running, intervalMs: this.interval },
+      coins,
+    };
+  }
+
+  private key(coin: string, reason: StuckReason, roundId: string) {
+    return `${coin}:${reason}:${roundId}`;
+  }
+}
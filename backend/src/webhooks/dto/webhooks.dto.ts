@@ -0,0 +1,69 @@
+import { Type } from 'class-transformer';
+import {
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsUrl,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
+import {
+  IsAddress,
+  IsCoin,
+  IsEtherAmount,
+} from '../../prediction/dto/prediction.dto';
+import {
+  DELIVERY_STATUSES,
+  DeliveryStatus,
+  WEBHOOK_EVENTS,
+  WebhookEvent,
+} from '../webhooks.types';
+
+export class CreateWebhookBody {
+  @IsUrl(
+    { require_tld: false, require_protocol: true, protocols: ['http', 'https'] },
+    { message: 'url must be an http or https URL' },
+  )
+  url: string;
+
+  @IsIn(WEBHOOK_EVENTS, {
+    message: `event must be one of ${WEBHOOK_EVENTS.join(', ')}`,
+  })
+  event: WebhookEvent;
+
+  // All coins when omitted
+  @IsOptional()
+  @IsCoin()
+  coin?: string;
+
+  // Required for bet.placed and win.claimable
+  @IsOptional()
+  @IsAddress()
+  address?: string;
+
+  // Required for bet.large, in ether
+  @IsOptional()
+  @IsEtherAmount()
+  minAmount?: string;
+}
+
+export class WebhookParams {
+  @IsUUID('4', { message: 'id must be a webhook id' })
+  id: string;
+}
+
+export class DeliveryQuery {
+  @IsOptional()
+  @IsIn(DELIVERY_STATUSES, {
+    message: `status must be one of ${DELIVERY_STATUSES.join(', ')}`,
+  })
+  status?: DeliveryStatus;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'limit must be an integer' })
+  @Min(1)
+  @Max(500)
+  limit: number = 50;
+}
@@ -0,0 +1,50 @@
+import { isPublicAddress, resolvePublicAddresses } from './public-address';
+
+describe('isPublicAddress', () => {
+  it.each(['93.184.216.34', '8.8.8.8', '2606:4700::1111'])(
+    'accepts %s',
+    (address) => {
+      expect(isPublicAddress(address)).toBe(true);
+    },
+  );
+
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.16.0.1',
+    '192.168.1.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '239.1.1.1',
+    '::1',
+    '::',
+    'fd00::1',
+    'fe80::1',
+    '::ffff:127.0.0.1',
+    '::ffff:a00:1',
+    'not-an-address',
+  ])('refuses %s', (address) => {
+    expect(isPublicAddress(address)).toBe(false);
+  });
+});
+
+describe('resolvePublicAddresses', () => {
+  it('returns an IP literal host as is', async () => {
+    await expect(
+      resolvePublicAddresses('https://93.184.216.34:8443/hook'),
+    ).resolves.toEqual(['93.184.216.34']);
+  });
+
+  it('refuses a private IPv6 literal', async () => {
+    await expect(
+      resolvePublicAddresses('http://[::ffff:127.0.0.1]/hook'),
+    ).rejects.toThrow('resolves to non-public');
+  });
+
+  it('refuses a hostname that resolves to loopback', async () => {
+    await expect(
+      resolvePublicAddresses('http://localhost:9000/hook'),
+    ).rejects.toThrow('localhost resolves to non-public');
+  });
+});
@@ -0,0 +1,55 @@
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+// Loopback, private, link-local, shared, multicast and reserved ranges a
+// webhook must not reach (cloud metadata sits at 169.254.169.254)
+const BLOCKED_SUBNETS: [string, number, 'ipv4' | 'ipv6'][] = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['224.0.0.0', 3, 'ipv4'],
+  ['::', 128, 'ipv6'],
+  ['::1', 128, 'ipv6'],
+  ['64:ff9b::', 96, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6'],
+];
+
+// Also matches IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) by the IPv4 rules
+const blockList = new BlockList();
+for (const [network, prefix, type] of BLOCKED_SUBNETS) {
+  blockList.addSubnet(network, prefix, type);
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !blockList.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Addresses the host of an http(s) URL resolves to. Rejects when any of
+ * them is not public, so a hostname can't point a webhook at the server's
+ * own network.
+ */
+export async function resolvePublicAddresses(url: string): Promise<string[]> {
+  // IPv6 literals keep their brackets in URL.hostname
+  const hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+  const addresses =
+    isIP(hostname) === 0
+      ? (await lookup(hostname, { all: true })).map(({ address }) => address)
+      : [hostname];
+
+  const blocked = addresses.find((address) => !isPublicAddress(address));
+  if (blocked !== undefined) {
+    throw new Error(`${hostname} resolves to non-public ${blocked}`);
+  }
+  return addresses;
+}
@@ -0,0 +1,247 @@
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import axios from 'axios';
+import { createHmac } from 'crypto';
+import { EnvironmentVariables } from '../config/env.validation';
+import {
+  WebhookDeliveryService,
+  signWebhook,
+} from './webhook-delivery.service';
+import { WebhooksStore } from './webhooks.store';
+import {
+  DeliveryAttempt,
+  WebhookDelivery,
+  WebhookSubscription,
+} from './webhooks.types';
+
+jest.mock('axios');
+const post = axios.post as jest.MockedFunction<typeof axios.post>;
+
+const NOW = 1_700_000_000_000;
+const DISPATCH_INTERVAL_MS = 1000;
+
+const subscription: WebhookSubscription = {
+  id: 'subscription-1',
+  url: 'https://93.184.216.34/hook',
+  event: 'round.closed',
+  coin: null,
+  address: null,
+  minAmount: null,
+  secret: 'secret',
+  createdAt: 0,
+};
+
+function delivery(attempts: number): WebhookDelivery {
+  return {
+    id: 7,
+    subscriptionId: subscription.id,
+    event: 'round.closed',
+    payload: { coin: 'BTC', roundId: 3 },
+    status: 'pending',
+    attempts,
+    nextAttemptAt: 0,
+    lastStatusCode: null,
+    lastError: null,
+    createdAt: 0,
+    deliveredAt: null,
+  };
+}
+
+/**
+ * Starts the delivery loop on a stubbed store under fake timers.
+ * `dispatch(...)` queues deliveries as due and lets one dispatch interval
+ * pass, ending at NOW.
+ */
+async function startService() {
+  const store = {
+    getSubscription: jest.fn<WebhookSubscription | null, [string]>(
+      () => subscription,
+    ),
+    getDueDeliveries: jest.fn<WebhookDelivery[], [number, number]>(() => []),
+    recordAttempt: jest.fn<void, [number, DeliveryAttempt]>(),
+  } satisfies Partial<WebhooksStore>;
+  const config: Partial<EnvironmentVariables> = {
+    WEBHOOK_MAX_ATTEMPTS: 4,
+    WEBHOOK_BACKOFF_BASE_MS: 2000,
+    WEBHOOK_BACKOFF_MAX_MS: 5000,
+    WEBHOOK_TIMEOUT_MS: 5000,
+  };
+  const configService: Partial<ConfigService<EnvironmentVariables, true>> = {
+    get: jest.fn((key: keyof EnvironmentVariables) => config[key]),
+  };
+
+  const moduleRef = await Test.createTestingModule({
+    providers: [
+      WebhookDeliveryService,
+      { provide: WebhooksStore, useValue: store },
+      { provide: ConfigService, useValue: configService },
+    ],
+  }).compile();
+  moduleRef.useLogger(false);
+  await moduleRef.init();
+
+  return {
+    store,
+    async dispatch(...due: WebhookDelivery[]) {
+      store.getDueDeliveries.mockReturnValueOnce(due);
+      jest.setSystemTime(NOW - DISPATCH_INTERVAL_MS);
+      await jest.advanceTimersByTimeAsync(DISPATCH_INTERVAL_MS);
+    },
+    stop: () => moduleRef.close(),
+  };
+}
+
+describe('signWebhook', () => {
+  it('signs the timestamp and body with HMAC-SHA256', () => {
+    const body = JSON.stringify({ id: 1 });
+    const expected = createHmac('sha256', 'secret')
+      .update(`1700000000.${body}`)
+      .digest('hex');
+
+    expect(signWebhook('secret', 1700000000, body)).toBe(expected);
+  });
+
+  it('changes with the timestamp', () => {
+    expect(signWebhook('secret', 1, '{}')).not.toBe(
+      signWebhook('secret', 2, '{}'),
+    );
+  });
+});
+
+describe('WebhookDeliveryService', () => {
+  let service: Awaited<ReturnType<typeof startService>> | null = null;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    post.mockReset();
+  });
+
+  afterEach(async () => {
+    await service?.stop();
+    service = null;
+    jest.useRealTimers();
+  });
+
+  it('sends a signed body and records the delivery', async () => {
+    post.mockResolvedValue({ status: 204 });
+    service = await startService();
+
+    await service.dispatch(delivery(0));
+
+    const [url, body, options] = post.mock.calls[0];
+    const headers = options.headers as Record<string, string>;
+    expect(url).toBe(subscription.url);
+    expect(JSON.parse(body as string)).toMatchObject({
+      id: 7,
+      event: 'round.closed',
+      subscriptionId: subscription.id,
+      data: { coin: 'BTC', roundId: 3 },
+    });
+    expect(headers['X-Webhook-Timestamp']).toBe(String(NOW / 1000));
+    expect(headers['X-Webhook-Signature']).toBe(
+      `sha256=${signWebhook(subscription.secret, NOW / 1000, body as string)}`,
+    );
+    expect(service.store.recordAttempt).toHaveBeenCalledWith(7, {
+      status: 'delivered',
+      nextAttemptAt: null,
+      statusCode: 204,
+      error: null,
+      at: NOW,
+    });
+  });
+
+  it('retries a non-2xx answer with exponential backoff', async () => {
+    post.mockResolvedValue({ status: 500 });
+    service = await startService();
+
+    await service.dispatch(delivery(0));
+    await service.dispatch(delivery(1));
+
+    expect(service.store.recordAttempt.mock.calls).toEqual([
+      [
+        7,
+        {
+          status: 'pending',
+          nextAttemptAt: NOW + 2000,
+          statusCode: 500,
+          error: 'Receiver answered 500',
+          at: NOW,
+        },
+      ],
+      [
+        7,
+        {
+          status: 'pending',
+          nextAttemptAt: NOW + 4000,
+          statusCode: 500,
+          error: 'Receiver answered 500',
+          at: NOW,
+        },
+      ],
+    ]);
+  });
+
+  it('caps the backoff at WEBHOOK_BACKOFF_MAX_MS', async () => {
+    post.mockRejectedValue(new Error('connect ECONNREFUSED'));
+    service = await startService();
+
+    // The third attempt would otherwise wait 8000ms
+    await service.dispatch(delivery(2));
+
+    expect(service.store.recordAttempt).toHaveBeenLastCalledWith(
+      7,
+      expect.objectContaining({
+        status: 'pending',
+        nextAttemptAt: NOW + 5000,
+        statusCode: null,
+        error: 'connect ECONNREFUSED',
+      }),
+    );
+  });
+
+  it('gives up after WEBHOOK_MAX_ATTEMPTS', async () => {
+    post.mockRejectedValue(new Error('timeout of 5000ms exceeded'));
+    service = await startService();
+
+    await service.dispatch(delivery(3));
+
+    expect(service.store.recordAttempt).toHaveBeenCalledWith(7, {
+      status: 'failed',
+      nextAttemptAt: null,
+      statusCode: null,
+      error: 'timeout of 5000ms exceeded',
+      at: NOW,
+    });
+  });
+
+  it('does not send to a private address', async () => {
+    service = await startService();
+    service.store.getSubscription.mockReturnValue({
+      ...subscription,
+      url: 'http://169.254.169.254/latest/meta-data',
+    });
+
+    await service.dispatch(delivery(0));
+
+    expect(post).not.toHaveBeenCalled();
+    expect(service.store.recordAttempt).toHaveBeenCalledWith(
+      7,
+      expect.objectContaining({
+        status: 'pending',
+        error: '169.254.169.254 resolves to non-public 169.254.169.254',
+      }),
+    );
+  });
+
+  it('keeps dispatching after a failed batch', async () => {
+    service = await startService();
+    service.store.getDueDeliveries.mockImplementationOnce(() => {
+      throw new Error('database is locked');
+    });
+
+    await jest.advanceTimersByTimeAsync(DISPATCH_INTERVAL_MS);
+    await jest.advanceTimersByTimeAsync(DISPATCH_INTERVAL_MS);
+
+    expect(service.store.getDueDeliveries).toHaveBeenCalledTimes(2);
+  });
+});
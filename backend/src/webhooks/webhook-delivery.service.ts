@@ -0,0 +1,176 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import { createHmac } from 'crypto';
+import { EnvironmentVariables } from '../config/env.validation';
+import { resolvePublicAddresses } from './public-address';
+import { WebhooksStore } from './webhooks.store';
+import { WebhookDelivery } from './webhooks.types';
+
+/**
+ * Signature sent in X-Webhook-Signature. Receivers recompute
+ * HMAC-SHA256(secret, `${timestamp}.${body}`) and can reject old timestamps
+ * to stop replays.
+ */
+export function signWebhook(secret: string, timestamp: number, body: string) {
+  return createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+}
+
+// How often due deliveries are picked up, and how many at a time
+const DISPATCH_INTERVAL_MS = 1000;
+const DISPATCH_BATCH_SIZE = 20;
+
+/**
+ * Sends queued webhook deliveries. Each body is signed with the
+ * subscription's secret; a delivery that fails or gets a non-2xx answer is
+ * retried with exponential backoff until WEBHOOK_MAX_ATTEMPTS.
+ */
+@Injectable()
+export class WebhookDeliveryService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(WebhookDeliveryService.name);
+  private readonly maxAttempts: number;
+  private readonly baseBackoff: number;
+  private readonly maxBackoff: number;
+  private readonly timeout: number;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly store: WebhooksStore,
+    private readonly configService: ConfigService<EnvironmentVariables, true>,
+  ) {
+    this.maxAttempts = this.configService.get('WEBHOOK_MAX_ATTEMPTS', {
+      infer: true,
+    });
+    this.baseBackoff = this.configService.get('WEBHOOK_BACKOFF_BASE_MS', {
+      infer: true,
+    });
+    this.maxBackoff = this.configService.get('WEBHOOK_BACKOFF_MAX_MS', {
+      infer: true,
+    });
+    this.timeout = this.configService.get('WEBHOOK_TIMEOUT_MS', {
+      infer: true,
+    });
+  }
+
+  onApplicationBootstrap() {
+    this.running = true;
+    this.schedule();
+  }
+
+  onModuleDestroy() {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private schedule() {
+    if (!this.running) return;
+    this.timer = setTimeout(async () => {
+      try {
+        await this.dispatch();
+      } catch (error) {
+        this.logger.error(`Could not dispatch webhooks: ${error.message}`);
+      } finally {
+        this.schedule();
+      }
+    }, DISPATCH_INTERVAL_MS);
+  }
+
+  private async dispatch() {
+    const due = this.store.getDueDeliveries(Date.now(), DISPATCH_BATCH_SIZE);
+    await Promise.all(due.map((delivery) => this.deliver(delivery)));
+  }
+
+  private async deliver(delivery: WebhookDelivery) {
+    const subscription = this.store.getSubscription(delivery.subscriptionId);
+    if (!subscription) return;
+
+    const body = JSON.stringify({
+      id: delivery.id,
+      event: delivery.event,
+      subscriptionId: subscription.id,
+      createdAt: new Date(delivery.createdAt).toISOString(),
+      data: delivery.payload,
+    });
+    const timestamp = Math.floor(Date.now() / 1000);
+    const signature = signWebhook(subscription.secret, timestamp, body);
+
+    let statusCode: number | null = null;
+    let error: string | null = null;
+    try {
+      // Connect to the addresses checked here, so DNS can't be switched to
+      // a private one between the check and the request
+      const addresses = await resolvePublicAddresses(subscription.url);
+      const response = await axios.post(subscription.url, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Webhook-Id': String(delivery.id),
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': `sha256=${signature}`,
+        },
+        timeout: this.timeout,
+        maxRedirects: 0,
+        lookup: (_hostname, _options, callback) => callback(null, addresses),
+        validateStatus: () => true,
+      });
+      statusCode = response.status;
+      if (statusCode < 200 || statusCode >= 300) {
+        error = `Receiver answered ${statusCode}`;
+      }
+    } catch (requestError) {
+      error = requestError.message;
+    }
+
+    const attempts = delivery.attempts + 1;
+    const now = Date.now();
+    if (error === null) {
+      this.store.recordAttempt(delivery.id, {
+        status: 'delivered',
+        nextAttemptAt: null,
+        statusCode,
+        error,
+        at: now,
+      });
+      return;
+    }
+
+    if (attempts >= this.maxAttempts) {
+      this.logger.warn(
+        `Giving up on ${delivery.event} delivery ${delivery.id} to ${subscription.url} after ${attempts} attempts: ${error}`,
+      );
+      this.store.recordAttempt(delivery.id, {
+        status: 'failed',
+        nextAttemptAt: null,
+        statusCode,
+        error,
+        at: now,
+      });
+      return;
+    }
+
+    const delay = Math.min(
+      this.baseBackoff * 2 ** (attempts - 1),
+      this.maxBackoff,
+    );
+    this.store.recordAttempt(delivery.id, {
+      status: 'pending',
+      nextAttemptAt: now + delay,
+      statusCode,
+      error,
+      at: now,
+    });
+  }
+}
@@ -0,0 +1,54 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { AdminGuard } from '../common/guards/admin.guard';
+import {
+  CreateWebhookBody,
+  DeliveryQuery,
+  WebhookParams,
+} from './dto/webhooks.dto';
+import { WebhooksService } from './webhooks.service';
+
+@Controller('api/prediction')
+@UseGuards(AdminGuard)
+export class WebhooksController {
+  constructor(private readonly webhooksService: WebhooksService) {}
+
+  @Post('webhooks')
+  createWebhook(@Body() body: CreateWebhookBody) {
+    return this.webhooksService.createSubscription(body);
+  }
+
+  @Get('webhooks')
+  getWebhooks() {
+    return this.webhooksService.getSubscriptions();
+  }
+
+  @Get('webhooks/:id')
+  getWebhook(@Param() { id }: WebhookParams) {
+    return this.webhooksService.getSubscription(id);
+  }
+
+  @Delete('webhooks/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  deleteWebhook(@Param() { id }: WebhookParams) {
+    this.webhooksService.deleteSubscription(id);
+  }
+
+  @Get('webhooks/:id/deliveries')
+  getDeliveries(
+    @Param() { id }: WebhookParams,
+    @Query() query: DeliveryQuery,
+  ) {
+    return this.webhooksService.getDeliveries(id, query);
+  }
+}
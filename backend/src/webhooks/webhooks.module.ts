@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { CoinsModule } from '../coins/coins.module';
+import { IndexerModule } from '../indexer/indexer.module';
+import { WebhookDeliveryService } from './webhook-delivery.service';
+import { WebhooksController } from './webhooks.controller';
+import { WebhooksService } from './webhooks.service';
+import { WebhooksStore } from './webhooks.store';
+
+@Module({
+  imports: [IndexerModule, CoinsModule],
+  controllers: [WebhooksController],
+  providers: [WebhooksStore, WebhooksService, WebhookDeliveryService],
+})
+export class WebhooksModule {}
@@ -0,0 +1,283 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ethers } from 'ethers';
+import { randomBytes, randomUUID } from 'crypto';
+import { Subscription } from 'rxjs';
+import { parseCoin } from '../blockchain/coins';
+import { COINS, Position } from '../blockchain/contract.constants';
+import { calculateClaim, getBetResult } from '../blockchain/round-math';
+import { CoinsService } from '../coins/coins.service';
+import {
+  InvalidParameterError,
+  WebhookNotFoundError,
+} from '../common/errors/prediction.errors';
+import { IndexerService } from '../indexer/indexer.service';
+import { IndexerStore } from '../indexer/indexer.store';
+import { ContractEvent, IndexedEvent } from '../indexer/indexer.types';
+import { CreateWebhookBody, DeliveryQuery } from './dto/webhooks.dto';
+import { resolvePublicAddresses } from './public-address';
+import { WebhooksStore } from './webhooks.store';
+import {
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookSubscription,
+} from './webhooks.types';
+
+/**
+ * Webhook subscriptions and the events that trigger them. Indexer events
+ * seen after startup are matched against every subscription and queued in
+ * the delivery log, which WebhookDeliveryService sends from.
+ */
+@Injectable()
+export class WebhooksService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(WebhooksService.name);
+  private subscription: Subscription | null = null;
+
+  constructor(
+    private readonly coinsService: CoinsService,
+    private readonly indexerService: IndexerService,
+    private readonly indexerStore: IndexerStore,
+    private readonly store: WebhooksStore,
+  ) {}
+
+  onApplicationBootstrap() {
+    this.subscription = this.indexerService.liveEvents$.subscribe((indexed) =>
+      this.handleEvent(indexed),
+    );
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  /**
+   * Register a webhook. The signing secret is only returned here.
+   */
+  async createSubscription(body: CreateWebhookBody) {
+    const needsAddress =
+      body.event === 'bet.placed' || body.event === 'win.claimable';
+    if (needsAddress && body.address === undefined) {
+      throw new InvalidParameterError('Invalid webhook', [
+        `address is required for ${body.event}`,
+      ]);
+    }
+    if (body.event === 'bet.large' && body.minAmount === undefined) {
+      throw new InvalidParameterError('Invalid webhook', [
+        'minAmount is required for bet.large',
+      ]);
+    }
+    try {
+      await resolvePublicAddresses(body.url);
+    } catch (error) {
+      throw new InvalidParameterError('Invalid webhook', [
+        `url must reach a public address: ${error.message}`,
+      ]);
+    }
+
+    const subscription: WebhookSubscription = {
+      id: randomUUID(),
+      url: body.url,
+      event: body.event,
+      coin: body.coin === undefined ? null : parseCoin(body.coin),
+      address: needsAddress ? body.address.toLowerCase() : null,
+      minAmount:
+        body.event === 'bet.large'
+          ? ethers.parseEther(body.minAmount).toString()
+          : null,
+      secret: randomBytes(32).toString('hex'),
+      createdAt: Date.now(),
+    };
+    this.store.createSubscription(subscription);
+
+    return {
+      ...this.formatSubscription(subscription),
+      secret: subscription.secret,
+    };
+  }
+
+  getSubscriptions() {
+    return this.store
+      .getSubscriptions()
+      .map((subscription) => this.formatSubscription(subscription));
+  }
+
+  getSubscription(id: string) {
+    return this.formatSubscription(this.findSubscription(id));
+  }
+
+  deleteSubscription(id: string) {
+    if (!this.store.deleteSubscription(id)) {
+      throw new WebhookNotFoundError();
+    }
+  }
+
+  /**
+   * Delivery log of a subscription, newest first
+   */
+  getDeliveries(id: string, query: DeliveryQuery) {
+    this.findSubscription(id);
+    return this.store
+      .getDeliveries(id, query.status, query.limit)
+      .map((delivery) => formatDelivery(delivery));
+  }
+
+  private findSubscription(id: string): WebhookSubscription {
+    const subscription = this.store.getSubscription(id);
+    if (!subscription) {
+      throw new WebhookNotFoundError();
+    }
+    return subscription;
+  }
+
+  private async handleEvent({ event, round }: IndexedEvent) {
+    try {
+      if (event.name === 'BetPlaced') {
+        this.onBetPlaced(event);
+      } else if (event.name === 'RoundClosed' && round) {
+        await this.onRoundClosed(event, round);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Could not queue webhooks for ${event.name} in ${event.transactionHash}: ${error.message}`,
+      );
+    }
+  }
+
+  private onBetPlaced(event: ContractEvent) {
+    const { args } = event;
+    const coin = Number(args.coin);
+    const user = String(args.user).toLowerCase();
+    const amount = BigInt(args.amount);
+    const payload = {
+      coin: COINS[coin],
+      roundId: Number(args.roundId),
+      user: ethers.getAddress(user),
+      position: Number(args.position) === Position.Bull ? 'Bull' : 'Bear',
+      amount: ethers.formatEther(amount),
+      placedAt: event.blockTimestamp,
+      blockNumber: event.blockNumber,
+      transactionHash: event.transactionHash,
+    };
+
+    for (const subscription of this.matching('bet.placed', coin)) {
+      if (subscription.address !== user) continue;
+      this.enqueue(subscription, event, payload);
+    }
+    for (const subscription of this.matching('bet.large', coin)) {
+      if (amount < BigInt(subscription.minAmount)) continue;
+      this.enqueue(subscription, event, payload);
+    }
+  }
+
+  private async onRoundClosed(
+    event: ContractEvent,
+    round: NonNullable<IndexedEvent['round']>,
+  ) {
+    const { decimals } = (await this.coinsService.getCoins())[round.coin];
+    const formatPrice = (price: string | null) =>
+      price === null ? null : ethers.formatUnits(price, decimals);
+    const roundPayload = {
+      coin: COINS[round.coin],
+      roundId: round.roundId,
+      lockPrice: formatPrice(round.lockPrice),
+      closePrice: formatPrice(round.closePrice),
+      // Null when the indexer did not see the round lock
+      outcome: round.outcome,
+      totalBullAmount: ethers.formatEther(round.totalBullAmount),
+      totalBearAmount: ethers.formatEther(round.totalBearAmount),
+      closedAt: round.closedAt,
+      blockNumber: event.blockNumber,
+      transactionHash: event.transactionHash,
+    };
+
+    for (const subscription of this.matching('round.closed', round.coin)) {
+      this.enqueue(subscription, event, roundPayload);
+    }
+
+    for (const subscription of this.matching('win.claimable', round.coin)) {
+      const [record] = this.indexerStore.getBets({
+        coin: round.coin,
+        roundId: round.roundId,
+        user: subscription.address,
+      });
+      if (!record || record.bet.claimed) continue;
+      if (getBetResult(round.outcome, record.bet.position) !== 'won') continue;
+
+      const { userPayout } = calculateClaim(
+        BigInt(round.totalBullAmount),
+        BigInt(round.totalBearAmount),
+        record.bet.position,
+        BigInt(record.bet.amount),
+      );
+      this.enqueue(subscription, event, {
+        ...roundPayload,
+        user: ethers.getAddress(record.bet.user),
+        position: record.bet.position === Position.Bull ? 'Bull' : 'Bear',
+        amount: ethers.formatEther(record.bet.amount),
+        payout: ethers.formatEther(userPayout),
+      });
+    }
+  }
+
+  private matching(event: WebhookEvent, coin: number): WebhookSubscription[] {
+    return this.store
+      .getSubscriptions(event)
+      .filter((subscription) => (subscription.coin ?? coin) === coin);
+  }
+
+  // Keyed by log so an event the indexer re-applies is not sent twice
+  private enqueue(
+    subscription: WebhookSubscription,
+    event: ContractEvent,
+    payload: Record<string, unknown>,
+  ) {
+    this.store.enqueue(
+      subscription.id,
+      subscription.event,
+      `${event.transactionHash}:${event.logIndex}`,
+      payload,
+      Date.now(),
+    );
+  }
+
+  private formatSubscription(subscription: WebhookSubscription) {
+    return {
+      id: subscription.id,
+      url: subscription.url,
+      event: subscription.event,
+      coin: subscription.coin === null ? null : COINS[subscription.coin],
+      address:
+        subscription.address === null
+          ? null
+          : ethers.getAddress(subscription.address),
+      minAmount:
+        subscription.minAmount === null
+          ? null
+          : ethers.formatEther(subscription.minAmount),
+      createdAt: new Date(subscription.createdAt).toISOString(),
+    };
+  }
+}
+
+function formatDelivery(delivery: WebhookDelivery) {
+  const toIsoString = (time: number | null) =>
+    time === null ? null : new Date(time).toISOString();
+
+  return {
+    id: delivery.id,
+    event: delivery.event,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    nextAttemptAt:
+      delivery.status === 'pending' ? toIsoString(delivery.nextAttemptAt) : null,
+    lastStatusCode: delivery.lastStatusCode,
+    lastError: delivery.lastError,
+    createdAt: toIsoString(delivery.createdAt),
+    deliveredAt: toIsoString(delivery.deliveredAt),
+    payload: delivery.payload,
+  };
+}
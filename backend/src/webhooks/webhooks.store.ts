@@ -0,0 +1,217 @@
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import { EnvironmentVariables } from '../config/env.validation';
+import {
+  DeliveryAttempt,
+  DeliveryStatus,
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookSubscription,
+} from './webhooks.types';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS subscriptions (
+    id TEXT PRIMARY KEY,
+    url TEXT NOT NULL,
+    event TEXT NOT NULL,
+    coin INTEGER,
+    address TEXT,
+    min_amount TEXT,
+    secret TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS deliveries (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    subscription_id TEXT NOT NULL
+      REFERENCES subscriptions (id) ON DELETE CASCADE,
+    event TEXT NOT NULL,
+    event_key TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at INTEGER,
+    last_status_code INTEGER,
+    last_error TEXT,
+    created_at INTEGER NOT NULL,
+    delivered_at INTEGER,
+    UNIQUE (subscription_id, event_key)
+  );
+
+  CREATE INDEX IF NOT EXISTS deliveries_due
+    ON deliveries (status, next_attempt_at);
+`;
+
+/**
+ * SQLite-backed storage for webhook subscriptions and their delivery log.
+ * Pending deliveries survive a restart and are retried from here.
+ */
+@Injectable()
+export class WebhooksStore implements OnModuleDestroy {
+  private db: Database.Database;
+
+  constructor(
+    private readonly configService: ConfigService<EnvironmentVariables, true>,
+  ) {
+    const dbPath = this.configService.get('WEBHOOK_DB_PATH', { infer: true });
+
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.db.exec(SCHEMA);
+  }
+
+  onModuleDestroy() {
+    this.db.close();
+  }
+
+  createSubscription(subscription: WebhookSubscription) {
+    this.db
+      .prepare(
+        `INSERT INTO subscriptions
+           (id, url, event, coin, address, min_amount, secret, created_at)
+         VALUES
+           (@id, @url, @event, @coin, @address, @minAmount, @secret, @createdAt)`,
+      )
+      .run(subscription);
+  }
+
+  /**
+   * Subscriptions, oldest first, optionally only those to one event
+   */
+  getSubscriptions(event?: WebhookEvent): WebhookSubscription[] {
+    const rows =
+      event === undefined
+        ? this.db.prepare('SELECT * FROM subscriptions ORDER BY created_at').all()
+        : this.db
+            .prepare(
+              'SELECT * FROM subscriptions WHERE event = ? ORDER BY created_at',
+            )
+            .all(event);
+    return rows.map((row) => this.toSubscription(row));
+  }
+
+  getSubscription(id: string): WebhookSubscription | null {
+    const row = this.db
+      .prepare('SELECT * FROM subscriptions WHERE id = ?')
+      .get(id);
+    return row ? this.toSubscription(row) : null;
+  }
+
+  /**
+   * Remove a subscription together with its delivery log
+   */
+  deleteSubscription(id: string): boolean {
+    return (
+      this.db.prepare('DELETE FROM subscriptions WHERE id = ?').run(id)
+        .changes > 0
+    );
+  }
+
+  /**
+   * Queue a delivery for immediate sending. An event already queued for the
+   * subscription, identified by eventKey, is ignored.
+   */
+  enqueue(
+    subscriptionId: string,
+    event: WebhookEvent,
+    eventKey: string,
+    payload: Record<string, unknown>,
+    now: number,
+  ): boolean {
+    return (
+      this.db
+        .prepare(
+          `INSERT OR IGNORE INTO deliveries
+             (subscription_id, event, event_key, payload, next_attempt_at, created_at)
+           VALUES (?, ?, ?, ?, ?, ?)`,
+        )
+        .run(subscriptionId, event, eventKey, JSON.stringify(payload), now, now)
+        .changes > 0
+    );
+  }
+
+  /**
+   * Pending deliveries whose next attempt is due, oldest first
+   */
+  getDueDeliveries(now: number, limit: number): WebhookDelivery[] {
+    return this.db
+      .prepare(
+        `SELECT * FROM deliveries
+         WHERE status = 'pending' AND next_attempt_at <= ?
+         ORDER BY next_attempt_at, id
+         LIMIT ?`,
+      )
+      .all(now, limit)
+      .map((row) => this.toDelivery(row));
+  }
+
+  /**
+   * Delivery log of a subscription, newest first
+   */
+  getDeliveries(
+    subscriptionId: string,
+    status: DeliveryStatus | undefined,
+    limit: number,
+  ): WebhookDelivery[] {
+    const conditions = ['subscription_id = @subscriptionId'];
+    if (status !== undefined) conditions.push('status = @status');
+
+    return this.db
+      .prepare(
+        `SELECT * FROM deliveries WHERE ${conditions.join(' AND ')}
+         ORDER BY id DESC LIMIT @limit`,
+      )
+      .all({ subscriptionId, status, limit })
+      .map((row) => this.toDelivery(row));
+  }
+
+  recordAttempt(id: number, attempt: DeliveryAttempt) {
+    this.db
+      .prepare(
+        `UPDATE deliveries SET
+           status = @status,
+           attempts = attempts + 1,
+           next_attempt_at = @nextAttemptAt,
+           last_status_code = @statusCode,
+           last_error = @error,
+           delivered_at = CASE WHEN @status = 'delivered' THEN @at END
+         WHERE id = @id`,
+      )
+      .run({ id, ...attempt });
+  }
+
+  private toSubscription(row: any): WebhookSubscription {
+    return {
+      id: row.id,
+      url: row.url,
+      event: row.event,
+      coin: row.coin,
+      address: row.address,
+      minAmount: row.min_amount,
+      secret: row.secret,
+      createdAt: row.created_at,
+    };
+  }
+
+  private toDelivery(row: any): WebhookDelivery {
+    return {
+      id: row.id,
+      subscriptionId: row.subscription_id,
+      event: row.event,
+      payload: JSON.parse(row.payload),
+      status: row.status,
+      attempts: row.attempts,
+      nextAttemptAt: row.next_attempt_at,
+      lastStatusCode: row.last_status_code,
+      lastError: row.last_error,
+      createdAt: row.created_at,
+      deliveredAt: row.delivered_at,
+    };
+  }
+}
@@ -0,0 +1,52 @@
+export const WEBHOOK_EVENTS = [
+  // A round of the coin closed
+  'round.closed',
+  // The address placed a bet
+  'bet.placed',
+  // A bet of at least minAmount was placed
+  'bet.large',
+  // A round closed with a winning bet of the address to claim
+  'win.claimable',
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export const DELIVERY_STATUSES = ['pending', 'delivered', 'failed'] as const;
+
+export type DeliveryStatus = (typeof DELIVERY_STATUSES)[number];
+
+// Times are unix milliseconds, amounts decimal strings of wei
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  event: WebhookEvent;
+  // Every coin when null
+  coin: number | null;
+  address: string | null;
+  minAmount: string | null;
+  // HMAC key of the signature header
+  secret: string;
+  createdAt: number;
+}
+
+export interface WebhookDelivery {
+  id: number;
+  subscriptionId: string;
+  event: WebhookEvent;
+  payload: Record<string, unknown>;
+  status: DeliveryStatus;
+  attempts: number;
+  nextAttemptAt: number | null;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  createdAt: number;
+  deliveredAt: number | null;
+}
+
+export interface DeliveryAttempt {
+  status: DeliveryStatus;
+  nextAttemptAt: number | null;
+  statusCode: number | null;
+  error: string | null;
+  at: number;
+}
@@ -0,0 +1,52 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title Multicall3
+ * @dev Subset of Multicall3 (https://github.com/mds1/multicall) used by the
+ * backend to batch reads into a single eth_call. BSC and most other chains
+ * already have it at 0xcA11bde05977b3631167028862bE2a173976CA11; the deploy
+ * scripts install this copy at the same address on a local Hardhat node.
+ */
+contract Multicall3 {
+    struct Call3 {
+        address target;
+        bool allowFailure;
+        bytes callData;
+    }
+
+    struct Result {
+        bool success;
+        bytes returnData;
+    }
+
+    /**
+     * @dev Execute calls in order, reverting only when a call that does not
+     * allow failure fails
+     */
+    function aggregate3(Call3[] calldata calls) public payable returns (Result[] memory returnData) {
+        uint256 length = calls.length;
+        returnData = new Result[](length);
+
+        for (uint256 i = 0; i < length; i++) {
+            Call3 calldata call = calls[i];
+            (bool success, bytes memory data) = call.target.call(call.callData);
+            require(success || call.allowFailure, "Multicall3: call failed");
+            returnData[i] = Result(success, data);
+        }
+    }
+
+    /**
+     * @dev Get the block number the calls execute in
+     */
+    function getBlockNumber() public view returns (uint256) {
+        return block.number;
+    }
+
+    /**
+     * @dev Get the timestamp of the block the calls execute in
+     */
+    function getCurrentBlockTimestamp() public view returns (uint256) {
+        return block.timestamp;
+    }
+}
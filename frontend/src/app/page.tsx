@@ -4,17 +4,14 @@ import { ConnectButton } from '@rainbow-me/rainbowkit'
 import { PredictionMarket } from '@/components/PredictionMarket'
 import { CryptoPriceTicker } from '@/components/CryptoPriceTicker'
 import { useState } from 'react'
-
-type Coin = 'BTC' | 'ETH' | 'BNB'
-
-const COIN_INFO = {
-  BTC: { name: 'Bitcoin', icon: '₿', gradient: 'from-orange-500 to-yellow-500' },
-  ETH: { name: 'Ethereum', icon: 'Ξ', gradient: 'from-blue-500 to-purple-500' },
-  BNB: { name: 'BNB', icon: '◆', gradient: 'from-yellow-500 to-orange-500' },
-}
+import { getCoinStyle } from '@/config/coins'
+import { useCoins } from '@/hooks/useCoins'
 
 export default function Home() {
-  const [selectedCoin, setSelectedCoin] = useState<Coin>('BNB')
+  const { data: coins, error } = useCoins()
+  const [selectedSymbol, setSelectedSymbol] = useState('BNB')
+  const selectedCoin = coins?.find((coin) => coin.symbol === selectedSymbol) ?? coins?.[0]
+  const selectedStyle = getCoinStyle(selectedCoin?.symbol)
 
   return (
     <main className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900">
@@ -25,12 +22,12 @@ export default function Home() {
         {/* Header */}
         <header className="flex justify-between items-center mb-6">
           <div className="flex items-center gap-4">
-            <div className={`w-12 h-12 rounded-xl bg-gradient-to-br ${COIN_INFO[selectedCoin].gradient} flex items-center justify-center text-2xl text-white font-bold shadow-lg`}>
-              {COIN_INFO[selectedCoin].icon}
+            <div className={`w-12 h-12 rounded-xl bg-gradient-to-br ${selectedStyle.gradient} flex items-center justify-center text-2xl text-white font-bold shadow-lg`}>
+              {selectedStyle.icon}
             </div>
             <div>
               <h1 className="text-3xl font-bold text-white">
-                {COIN_INFO[selectedCoin].name} Prediction
+                {selectedCoin?.name ?? 'Crypto'} Prediction
               </h1>
               <p className="text-gray-400 text-sm">
                 5-Minute Rounds • Win up to 98% of the pool
@@ -42,21 +39,21 @@ export default function Home() {
 
         {/* Coin Selector */}
         <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl p-2 mb-6 inline-flex gap-2 shadow-xl border border-gray-700/50">
-          {(Object.keys(COIN_INFO) as Coin[]).map((coin) => (
+          {coins?.map((coin) => (
             <button
-              key={coin}
-              onClick={() => setSelectedCoin(coin)}
+              key={coin.symbol}
+              onClick={() => setSelectedSymbol(coin.symbol)}
               className={`group relative px-6 py-3 rounded-xl font-bold transition-all duration-300 ${
-                selectedCoin === coin
-                  ? `bg-gradient-to-br ${COIN_INFO[coin].gradient} text-white shadow-lg scale-105`
+                selectedCoin?.symbol === coin.symbol
+                  ? `bg-gradient-to-br ${getCoinStyle(coin.symbol).gradient} text-white shadow-lg scale-105`
                   : 'bg-gray-700/50 text-gray-300 hover:bg-gray-600/50 hover:scale-105'
               }`}
             >
               <span className="flex items-center gap-2">
-                <span className="text-xl">{COIN_INFO[coin].icon}</span>
-                <span>{coin}</span>
+                <span className="text-xl">{getCoinStyle(coin.symbol).icon}</span>
+                <span>{coin.symbol}</span>
               </span>
-              {selectedCoin === coin && (
+              {selectedCoin?.symbol === coin.symbol && (
                 <div className="absolute inset-0 rounded-xl bg-white/20 animate-pulse"></div>
               )}
             </button>
@@ -64,7 +61,13 @@ export default function Home() {
         </div>
 
         {/* Prediction Market Component */}
-        <PredictionMarket coin={selectedCoin} />
+        {selectedCoin ? (
+          <PredictionMarket coin={selectedCoin} />
+        ) : (
+          <p className="text-gray-400 text-center py-12">
+            {error ? 'Could not load coins from the backend' : 'Loading coins...'}
+          </p>
+        )}
       </div>
     </main>
   )
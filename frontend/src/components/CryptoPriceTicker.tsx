@@ -3,15 +3,12 @@
 import { useReadContract } from 'wagmi'
 import { formatUnits } from 'viem'
 import { CONTRACT_ABI, CONTRACT_ADDRESS } from '@/config/contract'
+import { CoinInfo, getCoinStyle } from '@/config/coins'
+import { useCoins } from '@/hooks/useCoins'
 import { useEffect, useState } from 'react'
 
-const COINS = [
-  { name: 'BTC', symbol: 'Bitcoin', enum: 0, icon: '₿', color: 'text-orange-400' },
-  { name: 'ETH', symbol: 'Ethereum', enum: 1, icon: 'Ξ', color: 'text-blue-400' },
-  { name: 'BNB', symbol: 'BNB', enum: 2, icon: '◆', color: 'text-yellow-400' },
-]
-
 export function CryptoPriceTicker() {
+  const { data: coins } = useCoins()
   const [previousPrices, setPreviousPrices] = useState<{ [key: number]: bigint }>({})
   const [priceChanges, setPriceChanges] = useState<{ [key: number]: 'up' | 'down' | 'same' }>({})
 
@@ -31,9 +28,9 @@ export function CryptoPriceTicker() {
           </div>
           
           <div className="flex items-center gap-4 flex-wrap">
-            {COINS.map((coin) => (
+            {coins?.map((coin) => (
               <CoinPrice
-                key={coin.enum}
+                key={coin.index}
                 coin={coin}
                 previousPrices={previousPrices}
                 setPreviousPrices={setPreviousPrices}
@@ -49,7 +46,7 @@ export function CryptoPriceTicker() {
 }
 
 interface CoinPriceProps {
-  coin: typeof COINS[0]
+  coin: CoinInfo
   previousPrices: { [key: number]: bigint }
   setPreviousPrices: React.Dispatch<React.SetStateAction<{ [key: number]: bigint }>>
   priceChanges: { [key: number]: 'up' | 'down' | 'same' }
@@ -61,7 +58,7 @@ function CoinPrice({ coin, previousPrices, setPreviousPrices, priceChanges, setP
     address: CONTRACT_ADDRESS,
     abi: CONTRACT_ABI,
     functionName: 'getCurrentPrice',
-    args: [coin.enum],
+    args: [coin.index],
     query: {
       refetchInterval: 8000, // 8 seconds
     },
@@ -77,38 +74,40 @@ function CoinPrice({ coin, previousPrices, setPreviousPrices, priceChanges, setP
   }, [refetch])
 
   useEffect(() => {
-    if (currentPrice && previousPrices[coin.enum]) {
-      if (currentPrice > previousPrices[coin.enum]) {
-        setPriceChanges(prev => ({ ...prev, [coin.enum]: 'up' }))
-      } else if (currentPrice < previousPrices[coin.enum]) {
-        setPriceChanges(prev => ({ ...prev, [coin.enum]: 'down' }))
+    if (currentPrice && previousPrices[coin.index]) {
+      if (currentPrice > previousPrices[coin.index]) {
+        setPriceChanges(prev => ({ ...prev, [coin.index]: 'up' }))
+      } else if (currentPrice < previousPrices[coin.index]) {
+        setPriceChanges(prev => ({ ...prev, [coin.index]: 'down' }))
       } else {
-        setPriceChanges(prev => ({ ...prev, [coin.enum]: 'same' }))
+        setPriceChanges(prev => ({ ...prev, [coin.index]: 'same' }))
       }
     }
     
     if (currentPrice) {
-      setPreviousPrices(prev => ({ ...prev, [coin.enum]: currentPrice }))
+      setPreviousPrices(prev => ({ ...prev, [coin.index]: currentPrice }))
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [currentPrice, coin.enum])
+  }, [currentPrice, coin.index])
+
+  const style = getCoinStyle(coin.symbol)
 
   const priceChangeClass = 
-    priceChanges[coin.enum] === 'up' ? 'bg-green-500/20 border-green-500' :
-    priceChanges[coin.enum] === 'down' ? 'bg-red-500/20 border-red-500' :
+    priceChanges[coin.index] === 'up' ? 'bg-green-500/20 border-green-500' :
+    priceChanges[coin.index] === 'down' ? 'bg-red-500/20 border-red-500' :
     'bg-gray-700/20 border-gray-600'
 
   const priceChangeIcon = 
-    priceChanges[coin.enum] === 'up' ? '▲' :
-    priceChanges[coin.enum] === 'down' ? '▼' :
+    priceChanges[coin.index] === 'up' ? '▲' :
+    priceChanges[coin.index] === 'down' ? '▼' :
     '●'
 
   const priceChangeColor = 
-    priceChanges[coin.enum] === 'up' ? 'text-green-400' :
-    priceChanges[coin.enum] === 'down' ? 'text-red-400' :
+    priceChanges[coin.index] === 'up' ? 'text-green-400' :
+    priceChanges[coin.index] === 'down' ? 'text-red-400' :
     'text-gray-400'
 
-  const priceValue = currentPrice ? formatUnits(currentPrice, 8) : '--'
+  const priceValue = currentPrice ? formatUnits(currentPrice, coin.decimals) : '--'
   const formattedPrice = priceValue !== '--' ? parseFloat(priceValue).toLocaleString('en-US', {
     minimumFractionDigits: 2,
     maximumFractionDigits: 2,
@@ -117,17 +116,17 @@ function CoinPrice({ coin, previousPrices, setPreviousPrices, priceChanges, setP
   return (
     <div className={`group relative flex items-center gap-3 px-5 py-3 rounded-xl border-2 transition-all duration-500 ${priceChangeClass} hover:scale-105 hover:shadow-2xl`}>
       <div className="flex items-center gap-3">
-        <div className={`text-3xl font-bold ${coin.color} drop-shadow-lg`}>{coin.icon}</div>
+        <div className={`text-3xl font-bold ${style.color} drop-shadow-lg`}>{style.icon}</div>
         <div>
           <div className="flex items-center gap-2">
-            <span className="text-white font-bold text-base">{coin.name}</span>
+            <span className="text-white font-bold text-base">{coin.symbol}</span>
             <span className={`text-sm font-bold ${priceChangeColor} transition-all duration-300 ${
-              priceChanges[coin.enum] !== 'same' ? 'scale-125 animate-bounce' : ''
+              priceChanges[coin.index] !== 'same' ? 'scale-125 animate-bounce' : ''
             }`}>
               {priceChangeIcon}
             </span>
           </div>
-          <span className="text-gray-400 text-xs font-medium">{coin.symbol}</span>
+          <span className="text-gray-400 text-xs font-medium">{coin.name}</span>
         </div>
       </div>
       
@@ -139,9 +138,9 @@ function CoinPrice({ coin, previousPrices, setPreviousPrices, priceChanges, setP
       </div>
 
       {/* Animated background glow */}
-      {priceChanges[coin.enum] !== 'same' && (
+      {priceChanges[coin.index] !== 'same' && (
         <div className={`absolute inset-0 rounded-xl opacity-50 blur-xl ${
-          priceChanges[coin.enum] === 'up' ? 'bg-green-500/30' : 'bg-red-500/30'
+          priceChanges[coin.index] === 'up' ? 'bg-green-500/30' : 'bg-red-500/30'
         } animate-pulse`}></div>
       )}
     </div>
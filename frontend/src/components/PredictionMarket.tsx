@@ -4,22 +4,16 @@ import { useAccount, useReadContract, useWriteContract, useWaitForTransactionRec
 import { useEffect, useState } from 'react'
 import { formatEther, formatUnits, parseEther } from 'viem'
 import { CONTRACT_ABI, CONTRACT_ADDRESS } from '@/config/contract'
-
-type Coin = 'BTC' | 'ETH' | 'BNB'
-
-const COIN_TO_ENUM = {
-  BTC: 0,
-  ETH: 1,
-  BNB: 2,
-}
+import { CoinInfo } from '@/config/coins'
+import { simulateBet } from '@/config/api'
 
 interface Props {
-  coin: Coin
+  coin: CoinInfo
 }
 
 export function PredictionMarket({ coin }: Props) {
   const { address, isConnected } = useAccount()
-  const coinEnum = COIN_TO_ENUM[coin]
+  const coinEnum = coin.index
   const [currentTime, setCurrentTime] = useState(Math.floor(Date.now() / 1000))
   const [betAmount, setBetAmount] = useState('0.1')
 
@@ -98,11 +92,28 @@ export function PredictionMarket({ coin }: Props) {
   const { writeContract: writeClaim, data: claimHash, isPending: isClaimPending } = useWriteContract()
   const { isLoading: isClaimConfirming, isSuccess: isClaimSuccess } = useWaitForTransactionReceipt({ hash: claimHash })
 
-  const placeBet = (position: 'Bull' | 'Bear') => {
-    if (!isConnected) {
+  const placeBet = async (position: 'Bull' | 'Bear') => {
+    if (!isConnected || !address) {
       alert('Please connect your wallet first!')
       return
     }
+
+    // Pre-flight the bet so a revert is reported before the wallet opens
+    try {
+      const simulation = await simulateBet({
+        from: address,
+        coin: coin.symbol,
+        position: position === 'Bull' ? 'bull' : 'bear',
+        amount: betAmount,
+      })
+      if (!simulation.wouldSucceed) {
+        alert(`Bet would fail: ${simulation.reason}`)
+        return
+      }
+    } catch {
+      // The backend is optional here; fall back to the wallet's own checks
+    }
+
     writeContract({
       address: CONTRACT_ADDRESS,
       abi: CONTRACT_ABI,
@@ -198,7 +209,7 @@ export function PredictionMarket({ coin }: Props) {
   }
 
   const formatPrice = (price: bigint) => {
-    return `$${parseFloat(formatUnits(price, 8)).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+    return `$${parseFloat(formatUnits(price, coin.decimals)).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
   }
 
   const calculatePayout = (round: any, position: 'Bull' | 'Bear') => {
@@ -387,7 +398,7 @@ export function PredictionMarket({ coin }: Props) {
                             }`}>
                               {currentPrice > round.lockPrice ? '▲' : '▼'} 
                               {currentPrice > round.lockPrice ? '$' : '$-'}
-                              {Math.abs(Number(formatUnits(currentPrice - round.lockPrice, 8))).toFixed(2)}
+                              {Math.abs(Number(formatUnits(currentPrice - round.lockPrice, coin.decimals))).toFixed(2)}
               </div>
                           )}
             </div>
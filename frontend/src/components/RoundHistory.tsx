@@ -3,23 +3,16 @@
 import { useReadContract } from 'wagmi'
 import { formatEther, formatUnits } from 'viem'
 import { CONTRACT_ABI, CONTRACT_ADDRESS } from '@/config/contract'
+import { CoinInfo } from '@/config/coins'
 import { useEffect, useState } from 'react'
 
-type Coin = 'BTC' | 'ETH' | 'BNB'
-
-const COIN_TO_ENUM = {
-  BTC: 0,
-  ETH: 1,
-  BNB: 2,
-}
-
 interface Props {
-  coin: Coin
+  coin: CoinInfo
   currentRoundId: bigint | undefined
 }
 
 export function RoundHistory({ coin, currentRoundId }: Props) {
-  const coinEnum = COIN_TO_ENUM[coin]
+  const coinEnum = coin.index
   const [roundsToShow, setRoundsToShow] = useState<bigint[]>([])
 
   useEffect(() => {
@@ -57,7 +50,7 @@ function RoundCard({
   roundId, 
   currentRoundId 
 }: { 
-  coin: Coin
+  coin: CoinInfo
   coinEnum: number
   roundId: bigint
   currentRoundId: bigint | undefined
@@ -106,8 +99,8 @@ function RoundCard({
     } else {
       winner = 'Tie'
     }
-    const lockPriceNum = Number(formatUnits(round.lockPrice, 8))
-    const closePriceNum = Number(formatUnits(round.closePrice, 8))
+    const lockPriceNum = Number(formatUnits(round.lockPrice, coin.decimals))
+    const closePriceNum = Number(formatUnits(round.closePrice, coin.decimals))
     priceChange = ((closePriceNum - lockPriceNum) / lockPriceNum) * 100
   }
 
@@ -136,13 +129,13 @@ function RoundCard({
         <div className="bg-black/30 rounded p-3 mb-2">
           <div className="flex justify-between text-sm mb-1">
             <span className="text-gray-400">Locked:</span>
-            <span className="text-white font-mono">${formatUnits(round.lockPrice || 0n, 8)}</span>
+            <span className="text-white font-mono">${formatUnits(round.lockPrice || 0n, coin.decimals)}</span>
           </div>
           {round.status === 2 && (
             <>
               <div className="flex justify-between text-sm">
                 <span className="text-gray-400">Closed:</span>
-                <span className="text-white font-mono">${formatUnits(round.closePrice || 0n, 8)}</span>
+                <span className="text-white font-mono">${formatUnits(round.closePrice || 0n, coin.decimals)}</span>
               </div>
               <div className="flex justify-between text-sm mt-2 pt-2 border-t border-white/10">
                 <span className="text-gray-400">Change:</span>
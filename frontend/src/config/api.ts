@@ -0,0 +1,28 @@
+// Backend API base URL
+export const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001'
+
+// Result of POST /api/prediction/tx/bet/simulate
+export interface BetSimulation {
+  wouldSucceed: boolean
+  code: string | null
+  reason: string | null
+  roundId: string
+  secondsUntilLock: number
+}
+
+export async function simulateBet(params: {
+  from: string
+  coin: string
+  position: 'bull' | 'bear'
+  amount: string
+}): Promise<BetSimulation> {
+  const response = await fetch(`${API_URL}/api/prediction/tx/bet/simulate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params),
+  })
+  if (!response.ok) {
+    throw new Error(`Bet simulation failed (${response.status})`)
+  }
+  return response.json()
+}
@@ -0,0 +1,38 @@
+import { API_URL } from './api'
+
+// A coin as served by GET /api/prediction/coins
+export interface CoinInfo {
+  symbol: string
+  index: number
+  name: string
+  oracle: `0x${string}`
+  decimals: number
+  description: string
+}
+
+interface CoinStyle {
+  icon: string
+  color: string
+  gradient: string
+}
+
+// Presentation only; coins without an entry fall back to DEFAULT_STYLE
+const COIN_STYLES: { [symbol: string]: CoinStyle } = {
+  BTC: { icon: '₿', color: 'text-orange-400', gradient: 'from-orange-500 to-yellow-500' },
+  ETH: { icon: 'Ξ', color: 'text-blue-400', gradient: 'from-blue-500 to-purple-500' },
+  BNB: { icon: '◆', color: 'text-yellow-400', gradient: 'from-yellow-500 to-orange-500' },
+}
+
+const DEFAULT_STYLE: CoinStyle = { icon: '●', color: 'text-gray-400', gradient: 'from-gray-500 to-gray-600' }
+
+export function getCoinStyle(symbol: string | undefined): CoinStyle {
+  return (symbol && COIN_STYLES[symbol]) || DEFAULT_STYLE
+}
+
+export async function fetchCoins(): Promise<CoinInfo[]> {
+  const response = await fetch(`${API_URL}/api/prediction/coins`)
+  if (!response.ok) {
+    throw new Error(`Failed to load coins (${response.status})`)
+  }
+  return response.json()
+}
@@ -0,0 +1,11 @@
+import { useQuery } from '@tanstack/react-query'
+import { fetchCoins } from '@/config/coins'
+
+// Coin registry from the backend; oracles are fixed at deployment, so it is fetched once
+export function useCoins() {
+  return useQuery({
+    queryKey: ['coins'],
+    queryFn: fetchCoins,
+    staleTime: Infinity,
+  })
+}
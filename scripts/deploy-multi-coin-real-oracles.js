@@ -1,4 +1,5 @@
 const hre = require("hardhat");
+const { ensureMulticall } = require("./multicall");
 
 // Real Chainlink Oracle Addresses on BSC Testnet
 // Source: https://docs.chain.link/data-feeds/price-feeds/addresses?network=bnb-chain&page=1#bnb-chain-testnet
@@ -66,6 +67,7 @@ async function main() {
   const marketAddress = await market.getAddress();
   
   console.log("✅ Contract deployed successfully!");
+  const multicallAddress = await ensureMulticall(hre);
   console.log("=".repeat(80));
   
   console.log("\n📋 Deployment Summary:");
@@ -75,6 +77,7 @@ async function main() {
   console.log("📍 ETH Oracle:", CHAINLINK_ORACLES.ETH);
   console.log("📍 BNB Oracle:", CHAINLINK_ORACLES.BNB);
   console.log("📍 Treasury:", treasury.address);
+  console.log("📍 Multicall3:", multicallAddress ?? "not available");
   
   // Verify prices are accessible through the contract
   console.log("\n🧪 Testing price feeds through contract...");
@@ -1,4 +1,5 @@
 const hre = require("hardhat");
+const { ensureMulticall } = require("./multicall");
 
 async function main() {
   console.log("Deploying Multi-Coin Prediction Market...");
@@ -44,12 +45,15 @@ async function main() {
   const marketAddress = await market.getAddress();
   console.log("Multi-Coin Prediction Market deployed to:", marketAddress);
 
+  const multicallAddress = await ensureMulticall(hre);
+
   console.log("\n=== Deployment Summary ===");
   console.log("BTC Oracle:", btcOracleAddress);
   console.log("ETH Oracle:", ethOracleAddress);
   console.log("BNB Oracle:", bnbOracleAddress);
   console.log("Prediction Market:", marketAddress);
   console.log("Treasury:", treasury.address);
+  console.log("Multicall3:", multicallAddress ?? "not available");
   console.log("\n✅ Update these addresses in your .env files!");
 }
 
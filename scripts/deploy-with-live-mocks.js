@@ -1,4 +1,5 @@
 const hre = require("hardhat");
+const { ensureMulticall } = require("./multicall");
 
 async function main() {
   console.log("🚀 Deploying Multi-Coin Prediction Market with LIVE Mock Oracles...");
@@ -54,6 +55,7 @@ async function main() {
   await market.waitForDeployment();
   const marketAddress = await market.getAddress();
   console.log("✅ Contract deployed successfully!");
+  const multicallAddress = await ensureMulticall(hre);
 
   console.log("\n" + "=".repeat(80));
   console.log("\n📋 Deployment Summary:");
@@ -63,6 +65,7 @@ async function main() {
   console.log("📍 ETH Oracle:", ethOracleAddress);
   console.log("📍 BNB Oracle:", bnbOracleAddress);
   console.log("📍 Treasury:", treasury.address);
+  console.log("📍 Multicall3:", multicallAddress ?? "not available");
 
   // Test oracle connectivity
   console.log("\n🧪 Testing Mock Oracle prices...");
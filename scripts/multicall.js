@@ -0,0 +1,30 @@
+// Canonical Multicall3 address, the same on BSC and most other chains
+const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+/**
+ * Install contracts/Multicall3.sol at the canonical address when the chain
+ * doesn't have it, so the backend's default MULTICALL_ADDRESS works on a
+ * local Hardhat node too.
+ */
+async function ensureMulticall(hre) {
+  const code = await hre.ethers.provider.getCode(MULTICALL3_ADDRESS);
+  if (code !== "0x") {
+    console.log("Multicall3 found at:", MULTICALL3_ADDRESS);
+    return MULTICALL3_ADDRESS;
+  }
+
+  if (!["hardhat", "localhost"].includes(hre.network.name)) {
+    console.warn(`⚠️  No Multicall3 at ${MULTICALL3_ADDRESS}; deploy one and set MULTICALL_ADDRESS for the backend`);
+    return null;
+  }
+
+  const artifact = await hre.artifacts.readArtifact("Multicall3");
+  await hre.network.provider.send("hardhat_setCode", [
+    MULTICALL3_ADDRESS,
+    artifact.deployedBytecode,
+  ]);
+  console.log("Multicall3 installed at:", MULTICALL3_ADDRESS);
+  return MULTICALL3_ADDRESS;
+}
+
+module.exports = { MULTICALL3_ADDRESS, ensureMulticall };